@@ -0,0 +1,45 @@
+// Type-checks the output of livego-codegen for the fixture manifest against
+// the library sources. Run `npm run build` first.
+import { execFileSync } from 'child_process';
+import { copyFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const fixture = join(root, 'scripts', 'codegen-fixture');
+const dir = mkdtempSync(join(tmpdir(), 'livego-codegen-'));
+
+try {
+    execFileSync(process.execPath, [
+        join(root, 'dist', 'livego-codegen.js'),
+        join(fixture, 'manifest.json'),
+        '--out',
+        join(dir, 'livego.generated'),
+    ], { stdio: 'inherit' });
+
+    copyFileSync(join(fixture, 'usage.ts'), join(dir, 'usage.ts'));
+    writeFileSync(join(dir, 'tsconfig.json'), JSON.stringify({
+        compilerOptions: {
+            target: 'ES2020',
+            module: 'ESNext',
+            moduleResolution: 'bundler',
+            lib: ['ES2020', 'DOM'],
+            strict: true,
+            noEmit: true,
+            skipLibCheck: false,
+            types: [],
+            paths: { livego: [join(root, 'src', 'index.ts')] },
+        },
+        files: ['livego.generated.d.ts', 'usage.ts'],
+    }));
+
+    execFileSync(process.execPath, [join(root, 'node_modules', 'typescript', 'bin', 'tsc'), '-p', dir], {
+        stdio: 'inherit',
+    });
+    console.log('Generated types compile');
+} catch {
+    process.exitCode = 1;
+} finally {
+    rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,27 @@
+import { LiveGoComponent } from 'livego';
+import { mountCounter, mountTodoList, mountStatusBadge } from './livego.generated';
+
+export async function usage(): Promise<void> {
+    const counter = await LiveGoComponent.mount('Counter');
+    const count: number = counter.getState().count;
+    await counter.call('add', count);
+    await counter.set('label', 'clicks');
+
+    // @ts-expect-error wrong parameter type
+    await counter.call('add', 'five');
+    // @ts-expect-error unknown action
+    await counter.call('decrement');
+    // @ts-expect-error wrong field type
+    await counter.set('label', 42);
+    // @ts-expect-error unknown component
+    await LiveGoComponent.mount('Missing');
+
+    const todos = await mountTodoList({ listId: 1 });
+    const title: string = todos.getState().todos[0].title;
+    await todos.call('add', title);
+    // @ts-expect-error missing required props
+    await mountTodoList();
+
+    await mountCounter();
+    await mountStatusBadge();
+}
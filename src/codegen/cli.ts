@@ -0,0 +1,59 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { generate, type ComponentManifest } from './index';
+
+const USAGE = `Usage: livego-codegen <manifest.json> [--out <file>] [--package <name>]
+
+Generates <file>.d.ts (typed ComponentTypes registry) and <file>.js
+(typed mount factories) from a LiveGo component manifest.
+
+Options:
+  --out <file>       Output path without extension (default: livego.generated)
+  --package <name>   Module the generated files import from (default: livego)`;
+
+function main(argv: string[]): number {
+    let manifestPath: string | undefined;
+    let out = 'livego.generated';
+    let packageName: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+
+        if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            return 0;
+        } else if (arg === '--out') {
+            out = argv[++i];
+        } else if (arg === '--package') {
+            packageName = argv[++i];
+        } else if (!manifestPath) {
+            manifestPath = arg;
+        } else {
+            console.error(`Unexpected argument: ${arg}\n\n${USAGE}`);
+            return 1;
+        }
+    }
+
+    if (!manifestPath || !out) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    try {
+        const manifest: ComponentManifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+        const files = generate(manifest, { packageName });
+
+        const base = resolve(out.replace(/(\.d)?\.ts$|\.js$/, ''));
+        mkdirSync(dirname(base), { recursive: true });
+        writeFileSync(`${base}.d.ts`, files.declarations);
+        writeFileSync(`${base}.js`, files.module);
+
+        console.log(`Generated ${base}.d.ts and ${base}.js`);
+        return 0;
+    } catch (error) {
+        console.error(`livego-codegen: ${(error as Error).message}`);
+        return 1;
+    }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,222 @@
+/**
+ * Manifest describing the server components, as exported from the Go side
+ */
+export interface ComponentManifest {
+    components: Record<string, ManifestComponent>;
+    types?: Record<string, Record<string, string>>;
+}
+
+export interface ManifestComponent {
+    state?: Record<string, string>;
+    props?: Record<string, string>;
+    methods?: ManifestMethod[];
+}
+
+export interface ManifestMethod {
+    name: string;
+    params?: Array<{ name: string; type: string }>;
+}
+
+export interface GeneratedFiles {
+    declarations: string;
+    module: string;
+}
+
+export interface GenerateOptions {
+    /** Module specifier the generated files import from */
+    packageName?: string;
+}
+
+const HEADER = '// Generated by livego-codegen. Do not edit.';
+
+const NUMBER_TYPES = new Set([
+    'int', 'int8', 'int16', 'int32', 'int64',
+    'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr',
+    'float32', 'float64', 'byte', 'rune',
+]);
+
+/**
+ * Generate the registry declarations and factory module for a manifest
+ */
+export function generate(manifest: ComponentManifest, options: GenerateOptions = {}): GeneratedFiles {
+    validateManifest(manifest);
+
+    const packageName = options.packageName ?? 'livego';
+    const structs = new Set(Object.keys(manifest.types ?? {}));
+    const components = Object.entries(manifest.components);
+
+    const declarations: string[] = [
+        HEADER,
+        `import type { LiveGoComponent, LiveGoOptions, ComponentTypes } from '${packageName}';`,
+        '',
+    ];
+
+    Object.entries(manifest.types ?? {}).forEach(([name, fields]) => {
+        declarations.push(renderObjectType(name, fields, structs), '');
+    });
+
+    components.forEach(([name, component]) => {
+        const base = toIdentifier(name);
+
+        declarations.push(renderObjectType(`${base}State`, component.state ?? {}, structs), '');
+        declarations.push(renderObjectType(`${base}Props`, component.props ?? {}, structs), '');
+        declarations.push(renderActions(`${base}Actions`, component.methods ?? [], structs), '');
+    });
+
+    declarations.push(`declare module '${packageName}' {`, '    interface ComponentTypes {');
+    components.forEach(([name]) => {
+        const base = toIdentifier(name);
+        declarations.push(
+            `        ${toKey(name)}: { state: ${base}State; actions: ${base}Actions; props: ${base}Props };`
+        );
+    });
+    declarations.push('    }', '}', '');
+
+    components.forEach(([name, component]) => {
+        const base = toIdentifier(name);
+        const optional = Object.keys(component.props ?? {}).length === 0 ? '?' : '';
+
+        declarations.push(
+            `export declare function mount${base}(props${optional}: ${base}Props, options?: LiveGoOptions): ` +
+                `Promise<LiveGoComponent<ComponentTypes[${JSON.stringify(name)}]>>;`
+        );
+    });
+
+    const module: string[] = [HEADER, `import { LiveGoComponent } from '${packageName}';`, ''];
+
+    components.forEach(([name]) => {
+        const base = toIdentifier(name);
+        module.push(
+            `export function mount${base}(props = {}, options = {}) {`,
+            `    return LiveGoComponent.mount(${JSON.stringify(name)}, props, options);`,
+            '}',
+            ''
+        );
+    });
+
+    return {
+        declarations: declarations.join('\n') + '\n',
+        module: module.join('\n'),
+    };
+}
+
+/**
+ * Map a Go type expression to the TypeScript type of its JSON encoding
+ */
+export function goTypeToTs(goType: string, structs: Set<string> = new Set()): string {
+    const type = goType.trim();
+
+    if (type.startsWith('*')) {
+        return `${goTypeToTs(type.slice(1), structs)} | null`;
+    }
+
+    if (type === '[]byte') {
+        return 'string';
+    }
+
+    const slice = /^\[\d*\](.+)$/.exec(type);
+    if (slice) {
+        return `${wrapUnion(goTypeToTs(slice[1], structs))}[]`;
+    }
+
+    if (type.startsWith('map[')) {
+        const end = findClosingBracket(type, 3);
+        return `Record<string, ${goTypeToTs(type.slice(end + 1), structs)}>`;
+    }
+
+    if (NUMBER_TYPES.has(type)) {
+        return 'number';
+    }
+
+    switch (type) {
+        case 'string':
+            return 'string';
+        case 'bool':
+            return 'boolean';
+        case 'any':
+        case 'interface{}':
+        case 'json.RawMessage':
+            return 'any';
+        case 'time.Time':
+            return 'string';
+    }
+
+    // Qualified struct names (models.User) resolve to their declared name
+    const name = type.split('.').pop()!;
+    if (structs.has(name)) {
+        return name;
+    }
+
+    return 'unknown';
+}
+
+/**
+ * Object types are emitted as aliases rather than interfaces: interfaces have
+ * no implicit index signature, so they would not satisfy `ComponentType`
+ */
+function renderObjectType(name: string, fields: Record<string, string>, structs: Set<string>): string {
+    const lines = Object.entries(fields).map(
+        ([field, type]) => `    ${toKey(field)}: ${goTypeToTs(type, structs)};`
+    );
+
+    if (lines.length === 0) {
+        return `export type ${name} = {};`;
+    }
+
+    return [`export type ${name} = {`, ...lines, '};'].join('\n');
+}
+
+function renderActions(name: string, methods: ManifestMethod[], structs: Set<string>): string {
+    const lines = methods.map((method) => {
+        const params = (method.params ?? [])
+            .map((param) => `${toIdentifier(param.name, false)}: ${goTypeToTs(param.type, structs)}`)
+            .join(', ');
+
+        return `    ${toKey(method.name)}: (${params}) => Promise<void>;`;
+    });
+
+    return [`export type ${name} = {`, ...lines, '};'].join('\n');
+}
+
+function validateManifest(manifest: ComponentManifest): void {
+    if (!manifest || typeof manifest.components !== 'object' || manifest.components === null) {
+        throw new Error('Invalid manifest: missing "components" object');
+    }
+
+    Object.entries(manifest.components).forEach(([name, component]) => {
+        (component.methods ?? []).forEach((method, index) => {
+            if (!method || typeof method.name !== 'string') {
+                throw new Error(`Invalid manifest: method #${index} of "${name}" has no name`);
+            }
+        });
+    });
+}
+
+function findClosingBracket(type: string, open: number): number {
+    let depth = 0;
+
+    for (let i = open; i < type.length; i++) {
+        if (type[i] === '[') depth++;
+        if (type[i] === ']') depth--;
+        if (depth === 0) return i;
+    }
+
+    throw new Error(`Invalid Go type: ${type}`);
+}
+
+function wrapUnion(type: string): string {
+    return type.includes(' | ') ? `(${type})` : type;
+}
+
+function toIdentifier(name: string, pascal = true): string {
+    const parts = name.split(/[^A-Za-z0-9_$]+/).filter(Boolean);
+    const identifier = pascal
+        ? parts.map((part) => part[0].toUpperCase() + part.slice(1)).join('')
+        : parts.join('_');
+
+    return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+function toKey(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
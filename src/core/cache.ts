@@ -0,0 +1,140 @@
+import type { ComponentSnapshot } from '../types';
+import { abortable } from './queue';
+
+interface CachedSnapshot {
+    promise: Promise<ComponentSnapshot>;
+    /** When the snapshot stops being reused, Infinity while the mount is in flight */
+    expires: number;
+}
+
+interface SharedComponent {
+    promise: Promise<{ dispose(): void }>;
+    holders: number;
+}
+
+const snapshots = new Map<string, CachedSnapshot>();
+const shared = new Map<string, SharedComponent>();
+
+/**
+ * Cache key for a mount: the component name and its props, serialized with
+ * sorted keys so that property order does not matter
+ */
+export function mountKey(componentName: string, props: Record<string, any>): string {
+    return `${componentName}:${stableStringify(props)}`;
+}
+
+/**
+ * Share one mount request between every caller asking for the same key while
+ * it is in flight, and reuse its snapshot for `ttl` ms after it lands.
+ *
+ * The request itself is never aborted; aborting `signal` only stops waiting for it.
+ */
+export function cachedMount(
+    key: string,
+    ttl: number,
+    mount: () => Promise<ComponentSnapshot>,
+    signal?: AbortSignal
+): Promise<ComponentSnapshot> {
+    const cached = snapshots.get(key);
+
+    if (cached && cached.expires > Date.now()) {
+        return abortable(cached.promise, signal);
+    }
+
+    const entry: CachedSnapshot = { promise: mount(), expires: Infinity };
+    snapshots.set(key, entry);
+
+    entry.promise.then(
+        () => {
+            entry.expires = Date.now() + ttl;
+            if (ttl <= 0 && snapshots.get(key) === entry) {
+                snapshots.delete(key);
+            }
+        },
+        () => {
+            // Failed mounts are not cached, so the next caller tries again
+            if (snapshots.get(key) === entry) {
+                snapshots.delete(key);
+            }
+        }
+    );
+
+    return abortable(entry.promise, signal);
+}
+
+/**
+ * Hand every caller asking for the same key one component, created on first
+ * use. Each caller holds it until its `signal` aborts; the component is
+ * disposed when the last holder lets go.
+ */
+export function acquireShared<C extends { dispose(): void }>(
+    key: string,
+    create: () => Promise<C>,
+    signal?: AbortSignal
+): Promise<C> {
+    let entry = shared.get(key);
+
+    if (!entry) {
+        const created: SharedComponent = { promise: create(), holders: 0 };
+        created.promise.catch(() => {
+            if (shared.get(key) === created) {
+                shared.delete(key);
+            }
+        });
+        shared.set(key, created);
+        entry = created;
+    }
+
+    const held = entry;
+    held.holders++;
+
+    if (signal) {
+        const release = () => {
+            held.holders--;
+            if (held.holders > 0) {
+                return;
+            }
+
+            if (shared.get(key) === held) {
+                shared.delete(key);
+            }
+            held.promise.then((component) => component.dispose(), () => {});
+        };
+
+        if (signal.aborted) {
+            release();
+        } else {
+            signal.addEventListener('abort', release, { once: true });
+        }
+    }
+
+    return abortable(held.promise as Promise<C>, signal);
+}
+
+/**
+ * Forget cached snapshots, e.g. after logging out. Shared components stay
+ * alive until their holders let go.
+ */
+export function clearMountCache(): void {
+    snapshots.clear();
+}
+
+function stableStringify(value: unknown): string {
+    if (value && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+        return JSON.stringify(value);
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .sort()
+            .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value) ?? 'null';
+}
@@ -1,84 +1,266 @@
 import type {
     ErrorResponse,
+    LiveGoClientOptions,
+    LiveGoRequest,
     MountRequest,
     MountResponse,
+    RequestInterceptor,
+    RequestOptions,
+    ResponseInterceptor,
     UpdateRequest,
+    RetryPolicy,
+    Transport,
     UpdateResponse,
 } from '../types';
+import {
+    createHttpError,
+    LiveGoAbortError,
+    LiveGoNetworkError,
+    LiveGoTimeoutError,
+    toLiveGoError,
+    type LiveGoHttpError,
+} from './errors';
+import { parseRetryAfter, resolveRetryPolicy, retryDelay, sleep } from './retry';
 
-export class LiveGoClient {
+/**
+ * HTTP transport posting to `/mount` and `/update` (the default)
+ */
+export class LiveGoClient implements Transport {
     private readonly endpoint: string;
     private readonly credentials: RequestCredentials;
     private readonly headers: Record<string, string>;
+    private readonly retry: Required<RetryPolicy>;
+    private readonly timeout: number;
+    private readonly requestInterceptors: RequestInterceptor[];
+    private readonly responseInterceptors: ResponseInterceptor[];
 
     constructor(
         endpoint: string = '/api/livego',
         credentials: RequestCredentials = 'include',
-        headers: Record<string, string> = {}
+        headers: Record<string, string> = {},
+        options: LiveGoClientOptions = {}
     ) {
         this.endpoint = endpoint;
         this.credentials = credentials;
         this.headers = headers;
+        this.retry = resolveRetryPolicy(options.retry);
+        this.timeout = options.timeout ?? 0;
+        this.requestInterceptors = [...(options.interceptors?.request ?? [])];
+        this.responseInterceptors = [...(options.interceptors?.response ?? [])];
     }
 
     /**
-     * Mount a component on the server
+     * Register a request interceptor, returning a function that removes it
      */
-    async mount(request: MountRequest): Promise<MountResponse> {
-        const response = await this.fetch('/mount', {
-            method: 'POST',
-            body: JSON.stringify(request),
-        });
+    addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+        this.requestInterceptors.push(interceptor);
+        return () => remove(this.requestInterceptors, interceptor);
+    }
 
-        if (!response.ok) {
-            throw await this.parseError(response);
-        }
+    /**
+     * Register a response interceptor, returning a function that removes it
+     */
+    addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+        this.responseInterceptors.push(interceptor);
+        return () => remove(this.responseInterceptors, interceptor);
+    }
 
-        return response.json();
+    /**
+     * Mount a component on the server
+     */
+    async mount(request: MountRequest, options: RequestOptions = {}): Promise<MountResponse> {
+        return this.post('/mount', request, true, {}, options);
     }
 
     /**
      * Send an update to the server
+     *
+     * Updates calling server methods are only retried when the policy opts in
+     * or the server handed out an idempotency key with the snapshot.
      */
-    async update(request: UpdateRequest): Promise<UpdateResponse> {
-        const response = await this.fetch('/update', {
-            method: 'POST',
-            body: JSON.stringify(request),
-        });
+    async update(request: UpdateRequest, options: RequestOptions = {}): Promise<UpdateResponse> {
+        const idempotencyKey = request.snapshot.memo.idempotencyKey;
+        const hasCalls = request.updates.some((update) => update.type === 'callMethod');
+        const retryable = !hasCalls || this.retry.retryCalls || !!idempotencyKey;
 
-        if (!response.ok) {
-            throw await this.parseError(response);
-        }
-
-        return response.json();
+        return this.post(
+            '/update',
+            request,
+            retryable,
+            idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {},
+            options
+        );
     }
 
     /**
-     * Internal fetch wrapper with common options
+     * POST a JSON body, retrying transient failures according to the retry policy
      */
-    private async fetch(path: string, options: RequestInit = {}): Promise<Response> {
-        const url = `${this.endpoint}${path}`;
+    private async post<T>(
+        path: string,
+        body: unknown,
+        retryable: boolean,
+        headers: Record<string, string> = {},
+        options: RequestOptions = {}
+    ): Promise<T> {
+        const attempts = retryable ? Math.max(1, this.retry.attempts) : 1;
 
-        return fetch(url, {
-            ...options,
-            credentials: this.credentials,
+        const request: LiveGoRequest = {
+            url: `${this.endpoint}${path}`,
+            method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 ...this.headers,
-                ...options.headers,
+                ...headers,
             },
-        });
+            body,
+        };
+
+        for (let attempt = 1; ; attempt++) {
+            // Interceptor failures are not network errors, so they stay out of the retry below
+            const prepared = await this.prepare(request);
+            let response: Response;
+
+            try {
+                response = await this.fetch(prepared, options);
+            } catch (error) {
+                if (
+                    error instanceof LiveGoAbortError ||
+                    attempt >= attempts ||
+                    !this.retry.retryNetworkErrors
+                ) {
+                    throw error;
+                }
+
+                await sleep(retryDelay(this.retry, attempt), options.signal);
+                continue;
+            }
+
+            response = await this.intercept(response, request, prepared, options);
+
+            if (response.ok) {
+                return response.json();
+            }
+
+            if (attempt < attempts && this.retry.retryOn.includes(response.status)) {
+                const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+                // Waiting longer than maxDelay would hold up the component's update queue
+                if (retryAfter === null || retryAfter <= this.retry.maxDelay) {
+                    await sleep(retryAfter ?? retryDelay(this.retry, attempt), options.signal);
+                    continue;
+                }
+            }
+
+            throw await this.parseError(response);
+        }
+    }
+
+    /**
+     * Run a request through the request interceptors, surfacing their
+     * failures as LiveGoErrors
+     */
+    private async prepare(request: LiveGoRequest): Promise<LiveGoRequest> {
+        try {
+            let prepared: LiveGoRequest = { ...request, headers: { ...request.headers } };
+            for (const interceptor of this.requestInterceptors) {
+                prepared = (await interceptor(prepared)) ?? prepared;
+            }
+            return prepared;
+        } catch (error) {
+            throw toLiveGoError(error);
+        }
     }
 
-    private async parseError(response: Response): Promise<ErrorResponse> {
+    /**
+     * Run a response through the response interceptors, surfacing their
+     * failures as LiveGoErrors
+     */
+    private async intercept(
+        response: Response,
+        request: LiveGoRequest,
+        prepared: LiveGoRequest,
+        options: RequestOptions
+    ): Promise<Response> {
+        const context = {
+            request: prepared,
+            replay: async () => this.fetch(await this.prepare(request), options),
+        };
+
         try {
-            return await response.json();
+            for (const interceptor of this.responseInterceptors) {
+                response = (await interceptor(response, context)) ?? response;
+            }
+            return response;
+        } catch (error) {
+            throw toLiveGoError(error);
+        }
+    }
+
+    /**
+     * Internal fetch wrapper with common options, cancellation and timeout
+     */
+    private async fetch(request: LiveGoRequest, options: RequestOptions = {}): Promise<Response> {
+        const timeout = options.timeout ?? this.timeout;
+        const signal = options.signal;
+
+        if (signal?.aborted) {
+            throw new LiveGoAbortError();
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        let timedOut = false;
+        const timer = timeout > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, timeout)
+            : undefined;
+
+        try {
+            return await fetch(request.url, {
+                method: request.method,
+                body: JSON.stringify(request.body),
+                signal: controller.signal,
+                credentials: this.credentials,
+                headers: request.headers,
+            });
+        } catch (error) {
+            if (timedOut) {
+                throw new LiveGoTimeoutError(timeout);
+            }
+            if (signal?.aborted) {
+                throw new LiveGoAbortError();
+            }
+            throw new LiveGoNetworkError(error);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    private async parseError(response: Response): Promise<LiveGoHttpError> {
+        let body: ErrorResponse;
+
+        try {
+            body = await response.json();
         } catch {
-            return {
+            body = {
                 error: 'HTTP_ERROR',
                 message: response.statusText || 'Unknown error',
                 code: response.status,
             };
         }
+
+        return createHttpError(body, response.status);
+    }
+}
+
+function remove<T>(list: T[], item: T): void {
+    const index = list.indexOf(item);
+    if (index !== -1) {
+        list.splice(index, 1);
     }
 }
\ No newline at end of file
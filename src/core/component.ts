@@ -1,55 +1,262 @@
 import type {
+    ActionName,
+    ActionParams,
+    BatchOperation,
+    ComponentName,
+    ComponentProps,
     ComponentSnapshot,
+    ComponentType,
+    DispatchHandler,
     Effects,
+    EffectSource,
+    FieldChangeCallback,
+    FieldName,
+    HistoryCallback,
     UpdateCallback,
     LiveGoOptions,
+    OperationOptions,
+    OutboxCallback,
+    OutboxState,
+    PersistOptions,
+    Predictor,
+    PushMessage,
+    ResolveComponent,
+    StatePatchMessage,
+    StreamOptions,
+    SyncMode,
+    Transport,
     Update,
 } from '../types';
 import { LiveGoClient } from './client';
-import { getEndpoint, getCredentials, getHeaders } from './config';
+import {
+    getEndpoint,
+    getCredentials,
+    getHeaders,
+    getInterceptors,
+    getRetry,
+    getStorage,
+    getTimeout,
+    getTransport,
+} from './config';
+import { UpdateQueue } from './queue';
+import { InputSync } from './sync';
+import { OptimisticState } from './optimistic';
+import { LiveGoStream } from './stream';
+import { applyJsonPatch, patchedFields } from './patch';
+import { processEffects } from './effects';
+import { registerComponent } from './registry';
+import { Outbox, isConnectionError, isOffline } from './outbox';
+import { acquireShared, cachedMount, mountKey } from './cache';
+import { History } from './history';
+import { LiveGoAbortError, LiveGoChecksumError } from './errors';
+import { changedKeys, isEqual, readPath } from './diff';
 
-export class LiveGoComponent {
+export class LiveGoComponent<T extends ComponentType = ComponentType> {
     private snapshot: ComponentSnapshot;
-    private updateCallbacks: Set<UpdateCallback> = new Set();
-    private readonly client: LiveGoClient;
+    private updateCallbacks: Set<UpdateCallback<T['state']>> = new Set();
+    private fieldCallbacks = new Map<string, Set<FieldChangeCallback>>();
+    /** State as last handed to subscribers, diffed against on the next notification */
+    private notifiedState: T['state'];
+    private notifiedPending: string[] = [];
+    private readonly transport: Transport;
+    private readonly queue: UpdateQueue;
+    private readonly inputs: InputSync;
+    private readonly optimistic: OptimisticState;
+    private readonly optimisticInputs: boolean;
+    private readonly predictors: Record<string, Predictor>;
+    private readonly signal?: AbortSignal;
+    private readonly handleEffects: boolean;
+    private readonly handleHtml: boolean;
+    private readonly persist: Required<PersistOptions> | null;
+    private readonly outbox: Outbox | null;
+    /** Settles once entries persisted by a previous page are back in the outbox */
+    private outboxLoaded: Promise<void> = Promise.resolve();
+    private readonly history: History | null;
+    private readonly restoreMethod?: string;
+    private historyUpdates = new WeakSet<Update>();
+    private historyCallbacks = new Set<HistoryCallback>();
+    private controller = new AbortController();
+    private disposed = false;
+    private unsubscribePush: (() => void) | null = null;
+    private detachStreams = new Set<() => void>();
+    private dispatchListeners = new Map<string, Set<string | DispatchHandler>>();
+    private unregister: (() => void) | null = null;
+    private children = new Map<string, LiveGoComponent<any>>();
 
     constructor(snapshot: ComponentSnapshot, options: LiveGoOptions = {}) {
         this.snapshot = snapshot;
+        this.optimistic = new OptimisticState(snapshot.state);
+        this.notifiedState = this.optimistic.get();
+        this.optimisticInputs = options.optimistic ?? false;
+        this.predictors = { ...options.predictors };
+        this.signal = options.signal;
+        this.handleEffects = options.handleEffects ?? false;
+        this.handleHtml = options.handleHtml ?? true;
+        this.persist = options.persist ? persistOptions(options.persist) : null;
 
-        const endpoint = options.endpoint || getEndpoint();
-        const credentials = options.credentials || getCredentials();
-        const headers = options.headers || getHeaders();
+        this.transport = createTransport(options);
+        this.queue = new UpdateQueue(
+            (updates) => this.commit(updates),
+            (updates) => this.discardOptimistic(updates)
+        );
+        this.inputs = new InputSync(
+            (updates, signal) => this.sendUpdates(updates, signal),
+            options.sync,
+            options.defaultSync
+        );
+        const history = options.history === true ? {} : options.history || null;
+        this.history = history && new History(snapshot, history.limit);
+        this.restoreMethod = history?.restoreMethod;
+        this.outbox = options.offline
+            ? new Outbox(
+                {
+                    send: (updates, mark) => this.send(updates, mark),
+                    drop: (updates, mark) => this.rollback(updates, mark),
+                    snapshot: () => this.snapshot,
+                },
+                options.offline === true ? {} : options.offline,
+                this.persist
+            )
+            : null;
 
-        this.client = new LiveGoClient(endpoint, credentials, headers);
+        if (this.signal?.aborted) {
+            this.dispose();
+            return;
+        }
+
+        this.saveSnapshot();
+
+        if (this.outbox) {
+            const outbox = this.outbox;
+            this.outboxLoaded = outbox.load();
+            this.outboxLoaded.then(() => {
+                if (!isOffline()) {
+                    outbox.replay();
+                }
+            });
+
+            if (typeof window !== 'undefined') {
+                window.addEventListener('online', this.handleOnline);
+            }
+        }
+
+        this.signal?.addEventListener('abort', () => this.dispose(), { once: true });
+
+        Object.entries(options.listen ?? {}).forEach(([name, listener]) => {
+            this.listen(name, listener as ActionName<T> | DispatchHandler);
+        });
+        this.unregister = registerComponent(this);
+
+        if (this.transport.subscribe) {
+            this.unsubscribePush = this.transport.subscribe(snapshot.memo.id, (message) => {
+                this.applyPush(message);
+            });
+        }
+
+        if (options.stream) {
+            this.attachStream(options.stream === true ? {} : options.stream);
+        }
     }
 
     /**
-     * Mount a component from the API (static factory method)
+     * Mount a component from the API (static factory method).
+     *
+     * With the `persist` option, restores the stored snapshot instead when
+     * there is one. With the `cache` option, concurrent mounts with the same
+     * name and props send a single request; combined with `persist`, this
+     * applies to the mount made when nothing usable is stored.
      */
-    static async mount(
-        componentName: string,
-        props: Record<string, any> = {},
+    static async mount<N extends ComponentName>(
+        componentName: N,
+        props: ComponentProps<ResolveComponent<N>> = {} as ComponentProps<ResolveComponent<N>>,
         options: LiveGoOptions = {}
-    ): Promise<LiveGoComponent> {
-        const endpoint = options.endpoint || getEndpoint();
-        const credentials = options.credentials || getCredentials();
-        const headers = options.headers || getHeaders();
+    ): Promise<LiveGoComponent<ResolveComponent<N>>> {
+        const cache = options.cache === true ? {} : options.cache || null;
 
-        const client = new LiveGoClient(endpoint, credentials, headers);
+        // The shared component outlives any single holder, so it gets no signal.
+        // Persisted components are only shared with those using the same key.
+        if (cache?.shared) {
+            const persistKey = options.persist ? `#${persistOptions(options.persist).key}` : '';
 
-        const response = await client.mount({
-            component: componentName,
-            props,
-        });
+            return acquireShared(
+                mountKey(componentName, props) + persistKey,
+                () => LiveGoComponent.mount(componentName, props, {
+                    ...options,
+                    cache: { ttl: cache.ttl },
+                    signal: undefined,
+                }),
+                options.signal
+            );
+        }
+
+        if (options.persist) {
+            return LiveGoComponent.restore(componentName, persistOptions(options.persist).key, props, options);
+        }
 
-        return new LiveGoComponent(response.snapshot, options);
+        const snapshot = await fetchSnapshot(createTransport(options), componentName, props, options);
+        return new LiveGoComponent<ResolveComponent<N>>(snapshot, options);
     }
 
     /**
-     * Get the current state
+     * Resume a component from the snapshot stored under `key`, having the
+     * server confirm it with an empty update instead of mounting. Mounts with
+     * `props` when nothing is stored, the stored snapshot belongs to another
+     * component, or the server rejects the stored checksum.
+     *
+     * The component keeps saving its snapshots under `key`.
      */
-    getState(): any {
-        return this.snapshot.state;
+    static async restore<N extends ComponentName>(
+        componentName: N,
+        key: string,
+        props: ComponentProps<ResolveComponent<N>> = {} as ComponentProps<ResolveComponent<N>>,
+        options: LiveGoOptions = {}
+    ): Promise<LiveGoComponent<ResolveComponent<N>>> {
+        const persist = { ...persistOptions(options.persist ?? key), key };
+        const componentOptions = { ...options, persist };
+        const transport = createTransport(options);
+
+        let stored: ComponentSnapshot | null = null;
+        try {
+            stored = await persist.storage.get(key);
+        } catch (error) {
+            console.warn('Failed to read persisted LiveGo snapshot:', error);
+        }
+
+        if (stored && stored.memo?.name !== componentName) {
+            console.warn(`Ignoring persisted LiveGo snapshot of ${stored.memo?.name} stored under ${key}`);
+            stored = null;
+        }
+
+        if (stored) {
+            try {
+                const response = await transport.update(
+                    { snapshot: stored, updates: [] },
+                    { signal: options.signal }
+                );
+                return new LiveGoComponent<ResolveComponent<N>>(response.snapshot, componentOptions);
+            } catch (error) {
+                if (!(error instanceof LiveGoChecksumError)) {
+                    throw error;
+                }
+            }
+        }
+
+        const snapshot = await fetchSnapshot(transport, componentName, props, options);
+        return new LiveGoComponent<ResolveComponent<N>>(snapshot, componentOptions);
+    }
+
+    /**
+     * Get the current state, including optimistic changes that have not landed yet
+     */
+    getState(): T['state'] {
+        return this.optimistic.get();
+    }
+
+    /**
+     * Get the fields with optimistic changes still waiting for the server
+     */
+    getPendingFields(): string[] {
+        return this.optimistic.getPendingFields();
     }
 
     /**
@@ -67,40 +274,118 @@ export class LiveGoComponent {
     }
 
     /**
-     * Get the current snapshot (useful for debugging)
+     * Get the last snapshot confirmed by the server (useful for debugging)
      */
     getSnapshot(): ComponentSnapshot {
         return this.snapshot;
     }
 
+    /**
+     * Get the IDs of the child components listed in `memo.children`
+     */
+    getChildIds(): string[] {
+        return this.snapshot.memo.children ?? [];
+    }
+
+    /**
+     * Get a child component, creating it from the snapshot the server embedded
+     * for it on first use. Children share this component's transport and are
+     * disposed with it, or as soon as the server stops listing them.
+     */
+    getChild<C extends ComponentType = ComponentType>(id: string): LiveGoComponent<C> | undefined {
+        if (this.disposed || !this.getChildIds().includes(id)) {
+            return undefined;
+        }
+
+        let child = this.children.get(id);
+        if (!child) {
+            const snapshot = this.snapshot.children?.[id];
+            if (!snapshot) {
+                return undefined;
+            }
+
+            child = new LiveGoComponent<C>(snapshot, {
+                transport: this.transport,
+                handleEffects: this.handleEffects,
+                handleHtml: this.handleHtml,
+            });
+            this.children.set(id, child);
+        }
+
+        return child as LiveGoComponent<C>;
+    }
+
     /**
      * Call a method on the server component
      */
-    async call(method: string, ...params: any[]): Promise<void> {
-        return this.sendUpdates([
+    async call<M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>): Promise<void> {
+        return this.invoke(method, params);
+    }
+
+    /**
+     * Call a method on the server component with an explicit parameter list and options
+     */
+    async invoke<M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options: OperationOptions = {}
+    ): Promise<void> {
+        const updates: Update[] = [
             {
                 type: 'callMethod',
                 payload: { method, params },
             },
-        ]);
+        ];
+
+        this.applyOptimistic(updates);
+        return this.sendWithInputs(updates, options.signal);
     }
 
     /**
-     * Sync an input field to the server
+     * Sync an input field to the server, honouring the field's sync mode
      */
-    async set(field: string, value: any): Promise<void> {
-        return this.sendUpdates([
+    async set<F extends FieldName<T>>(
+        field: F,
+        value: T['state'][F],
+        options: OperationOptions = {}
+    ): Promise<void> {
+        this.applyOptimistic([
             {
                 type: 'syncInput',
                 payload: { field, value },
             },
         ]);
+        return this.inputs.set(field, value, options.signal);
+    }
+
+    /**
+     * Register a predictor that optimistically applies a method's changes
+     */
+    predict<M extends ActionName<T>>(
+        method: M,
+        predictor: Predictor<T['state'], ActionParams<T, M>>
+    ): void {
+        this.predictors[method] = predictor as Predictor;
+    }
+
+    /**
+     * Change how a field is synced by `set()`
+     */
+    setSyncMode(field: FieldName<T>, mode: SyncMode): void {
+        this.inputs.setMode(field, mode);
+    }
+
+    /**
+     * Send all buffered (lazy, debounced or throttled) inputs right away
+     */
+    async flushInputs(): Promise<void> {
+        return this.inputs.flush();
     }
 
     /**
      * Batch multiple operations together
      */
-    async batch(operations: Array<{ type: 'call' | 'set'; [key: string]: any }>): Promise<void> {
+    async batch(operations: BatchOperation<T>[], options: OperationOptions = {}): Promise<void> {
         const updates: Update[] = operations.map((op) => {
             if (op.type === 'call') {
                 return {
@@ -121,13 +406,217 @@ export class LiveGoComponent {
             }
         });
 
-        return this.sendUpdates(updates);
+        this.applyOptimistic(updates);
+        return this.sendWithInputs(updates, options.signal);
+    }
+
+    /**
+     * Step back to the previous confirmed snapshot (with the `history` option)
+     */
+    async undo(options: OperationOptions = {}): Promise<void> {
+        return this.travel(-1, options.signal);
+    }
+
+    /**
+     * Step forward again after `undo()`
+     */
+    async redo(options: OperationOptions = {}): Promise<void> {
+        return this.travel(1, options.signal);
+    }
+
+    canUndo(): boolean {
+        return this.history?.canUndo() ?? false;
+    }
+
+    canRedo(): boolean {
+        return this.history?.canRedo() ?? false;
+    }
+
+    /**
+     * Subscribe to changes of `canUndo()` and `canRedo()`
+     */
+    onHistoryChange(callback: HistoryCallback): () => void {
+        this.historyCallbacks.add(callback);
+
+        return () => {
+            this.historyCallbacks.delete(callback);
+        };
+    }
+
+    /**
+     * Abort every queued and in-flight request of this component
+     */
+    abort(): void {
+        this.controller.abort();
+
+        // Stay usable unless the component has been disposed
+        if (!this.disposed) {
+            this.controller = new AbortController();
+        }
+    }
+
+    /**
+     * Apply the reserved `snapshot`, `state-patch` and `effects` events of a
+     * stream to this component, returning a function that detaches it.
+     *
+     * Given stream options instead of a stream, opens a stream for this
+     * component that is closed again on detach.
+     */
+    attachStream(source: LiveGoStream<any> | StreamOptions = {}): () => void {
+        if (this.disposed) {
+            return () => {};
+        }
+
+        const owned = !isStream(source);
+        const stream = isStream(source)
+            ? source
+            : new LiveGoStream(this.getId(), () => this.snapshot.checksum, source);
+
+        const unsubscribers = [
+            stream.on('snapshot', (message) => this.applyStreamSnapshot(message)),
+            stream.on('state-patch', (message) => this.applyStatePatch(message)),
+            stream.on('effects', (effects) => this.applyEffects(effects)),
+        ];
+
+        if (owned) {
+            stream.connect();
+        }
+
+        const detach = () => {
+            if (!this.detachStreams.delete(detach)) {
+                return;
+            }
+
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
+            if (owned) {
+                stream.disconnect();
+            }
+        };
+
+        this.detachStreams.add(detach);
+        return detach;
+    }
+
+    /**
+     * React to a dispatched event by calling a server method (with the event
+     * params as arguments) or a handler, returning a function that stops listening
+     */
+    listen<K extends string>(name: K, listener: ActionName<T> | DispatchHandler<K>): () => void {
+        if (!this.dispatchListeners.has(name)) {
+            this.dispatchListeners.set(name, new Set());
+        }
+
+        this.dispatchListeners.get(name)!.add(listener);
+
+        return () => {
+            this.dispatchListeners.get(name)?.delete(listener);
+        };
+    }
+
+    /**
+     * Deliver a dispatched event to this component's listeners (used by the event bus)
+     */
+    receiveDispatch(name: string, params: any, source: EffectSource | null): void {
+        if (this.disposed) {
+            return;
+        }
+
+        this.dispatchListeners.get(name)?.forEach((listener) => {
+            if (typeof listener === 'function') {
+                try {
+                    listener(params, source);
+                } catch (error) {
+                    console.error(`Error in LiveGo listener for "${name}":`, error);
+                }
+                return;
+            }
+
+            const args = Array.isArray(params) ? params : params === undefined ? [] : [params];
+            this.invoke(listener as ActionName<T>, args as ActionParams<T, ActionName<T>>).catch((error) => {
+                if (!(error instanceof LiveGoAbortError)) {
+                    console.error(`LiveGo listener ${listener}() for "${name}" failed:`, error);
+                }
+            });
+        });
+    }
+
+    /**
+     * Abort all requests, stop receiving server pushes, streams and dispatched
+     * events, and remove all listeners. Called automatically when the `signal`
+     * option aborts.
+     */
+    dispose(): void {
+        this.disposed = true;
+        this.inputs.dispose();
+        this.abort();
+        this.unregister?.();
+        this.unregister = null;
+        this.unsubscribePush?.();
+        this.unsubscribePush = null;
+        Array.from(this.detachStreams).forEach((detach) => detach());
+        if (this.outbox && typeof window !== 'undefined') {
+            window.removeEventListener('online', this.handleOnline);
+        }
+        this.children.forEach((child) => child.dispose());
+        this.children.clear();
+        this.clearListeners();
+    }
+
+    /**
+     * Delete the snapshot persisted for this component, e.g. after a form is
+     * submitted. It is saved again on the next confirmed update.
+     */
+    async clearPersistedSnapshot(): Promise<void> {
+        if (this.persist) {
+            await Promise.all([
+                this.persist.storage.remove(this.persist.key),
+                this.persist.storage.remove(`${this.persist.key}:outbox`),
+            ]);
+        }
+    }
+
+    /**
+     * Whether any updates are buffered, queued, waiting offline or waiting for a server response
+     */
+    hasPendingUpdates(): boolean {
+        return this.inputs.hasPending() || !this.queue.isIdle() || this.getOutboxSize() > 0;
+    }
+
+    /**
+     * Get the number of requests waiting in the offline outbox
+     */
+    getOutboxSize(): number {
+        return this.outbox?.size() ?? 0;
+    }
+
+    /**
+     * Get whether the offline outbox is empty, waiting for the connection or replaying
+     */
+    getOutboxState(): OutboxState {
+        return this.outbox?.getState() ?? 'idle';
+    }
+
+    /**
+     * Subscribe to changes of the outbox size or state
+     */
+    onOutboxChange(callback: OutboxCallback): () => void {
+        return this.outbox?.onChange(callback) ?? (() => {});
+    }
+
+    /**
+     * Send the updates waiting in the offline outbox now, instead of on the
+     * next `online` event
+     */
+    async replayOutbox(): Promise<void> {
+        if (!this.disposed) {
+            await this.outbox?.replay();
+        }
     }
 
     /**
      * Subscribe to state updates
      */
-    onUpdate(callback: UpdateCallback): () => void {
+    onUpdate(callback: UpdateCallback<T['state']>): () => void {
         this.updateCallbacks.add(callback);
 
         // Return unsubscribe function
@@ -136,36 +625,446 @@ export class LiveGoComponent {
         };
     }
 
+    /**
+     * Subscribe to changes of the value at a dot-separated path such as
+     * `user.address.city`. The callback only runs when that value actually
+     * changed, compared structurally.
+     */
+    onFieldChange<V = any>(path: string, callback: FieldChangeCallback<V>): () => void {
+        const callbacks = this.fieldCallbacks.get(path) ?? new Set<FieldChangeCallback>();
+        this.fieldCallbacks.set(path, callbacks);
+        callbacks.add(callback);
+
+        return () => {
+            callbacks.delete(callback);
+            if (callbacks.size === 0 && this.fieldCallbacks.get(path) === callbacks) {
+                this.fieldCallbacks.delete(path);
+            }
+        };
+    }
+
     /**
      * Remove all update listeners
      */
     clearListeners(): void {
         this.updateCallbacks.clear();
+        this.fieldCallbacks.clear();
     }
 
     /**
-     * Send updates to the server
+     * Patch the local state for updates that have an optimistic counterpart
      */
-    private async sendUpdates(updates: Update[]): Promise<void> {
-        const response = await this.client.update({
-            snapshot: this.snapshot,
-            updates,
+    private applyOptimistic(updates: Update[]): void {
+        let patched = false;
+
+        updates.forEach((update) => {
+            if (update.type === 'syncInput' && this.optimisticInputs) {
+                this.optimistic.patchField(update.payload.field!, update.payload.value);
+                patched = true;
+            } else if (update.type === 'callMethod' && this.predictors[update.payload.method!]) {
+                this.optimistic.patchCall(update, this.predictors[update.payload.method!]);
+                patched = true;
+            }
         });
 
+        if (patched) {
+            this.optimistic.rebase(this.snapshot.state);
+            this.notifyUpdate(this.optimistic.get(), localEffects(this.optimistic.getPendingFields()));
+        }
+    }
+
+    /**
+     * Drop optimistic patches for updates that were aborted before being sent
+     */
+    private discardOptimistic(updates: Update[]): void {
+        if (this.optimistic.settle(updates, this.optimistic.mark())) {
+            this.optimistic.rebase(this.snapshot.state);
+            this.notifyUpdate(this.optimistic.get(), localEffects([]));
+        }
+    }
+
+    /**
+     * Queue updates behind any buffered inputs so the server sees the latest values
+     */
+    private sendWithInputs(updates: Update[], signal?: AbortSignal): Promise<void> {
+        const buffered = this.inputs.drain();
+        const result = this.sendUpdates([...buffered.updates, ...updates], signal);
+        buffered.settle(result);
+        return result;
+    }
+
+    /**
+     * Queue updates for the server, resolving once they have been applied
+     */
+    private sendUpdates(updates: Update[], signal?: AbortSignal): Promise<void> {
+        return this.queue.push(updates, signal);
+    }
+
+    /**
+     * Send updates to the server using the latest snapshot
+     */
+    private async commit(updates: Update[]): Promise<void> {
+        const mark = this.optimistic.mark();
+
+        // Nothing overtakes the updates already waiting offline, including
+        // those still being read from storage
+        await this.outboxLoaded;
+        if (this.outbox && (this.outbox.size() > 0 || isOffline())) {
+            this.outbox.push(updates, mark);
+            if (!isOffline()) {
+                this.outbox.replay();
+            }
+            return;
+        }
+
+        try {
+            await this.send(updates, mark);
+        } catch (error) {
+            if (this.outbox && isConnectionError(error)) {
+                this.outbox.push(updates, mark);
+                return;
+            }
+
+            this.rollback(updates, mark);
+            throw error;
+        }
+    }
+
+    /**
+     * Send updates with the latest snapshot and apply the response
+     */
+    private async send(updates: Update[], mark: number): Promise<void> {
+        const signal = this.controller.signal;
+        const response = await this.transport.update(
+            {
+                snapshot: this.snapshot,
+                updates,
+            },
+            { signal }
+        );
+
         this.snapshot = response.snapshot;
-        this.notifyUpdate(response.snapshot.state, response.effects);
+        this.optimistic.settle(updates, mark);
+        this.optimistic.rebase(response.snapshot.state);
+        this.saveSnapshot();
+        this.recordHistory(updates);
+        this.syncChildren();
+        this.applyEffects(response.effects);
+    }
+
+    /**
+     * Move through the history and have the server adopt the state stepped to
+     */
+    private async travel(step: number, signal?: AbortSignal): Promise<void> {
+        const target = this.history?.peek(step);
+        if (!this.history || !target) {
+            return;
+        }
+
+        const updates: Update[] = this.restoreMethod
+            ? [{ type: 'callMethod', payload: { method: this.restoreMethod, params: [target.state] } }]
+            : changedKeys(this.snapshot.state, target.state).map((field) => ({
+                type: 'syncInput',
+                payload: { field, value: target.state[field] },
+            }));
+
+        this.history.go(step);
+        this.notifyHistory();
+
+        if (updates.length === 0) {
+            return;
+        }
+
+        updates.forEach((update) => this.historyUpdates.add(update));
+        this.applyOptimistic(updates);
+
+        try {
+            await this.sendWithInputs(updates, signal);
+        } catch (error) {
+            // Stay where the server is, unless the cursor has moved on since
+            if (this.history.peek(-step) && this.history.peek(0) === target) {
+                this.history.go(-step);
+                this.notifyHistory();
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Add a newly confirmed snapshot to the history. Requests that only
+     * carried `undo()`/`redo()` updates refresh the current entry instead.
+     */
+    private recordHistory(updates: Update[]): void {
+        if (!this.history) {
+            return;
+        }
+
+        if (updates.every((update) => this.historyUpdates.has(update))) {
+            this.history.replace(this.snapshot);
+        } else {
+            this.history.record(this.snapshot);
+        }
+
+        this.notifyHistory();
+    }
+
+    private notifyHistory(): void {
+        const canUndo = this.canUndo();
+        const canRedo = this.canRedo();
+
+        this.historyCallbacks.forEach((callback) => {
+            try {
+                callback(canUndo, canRedo);
+            } catch (error) {
+                console.error('Error in LiveGo history callback:', error);
+            }
+        });
     }
 
     /**
-     * Notify all subscribers of state change
+     * Roll back to the last confirmed snapshot
+     */
+    private rollback(updates: Update[], mark: number): void {
+        if (this.optimistic.settle(updates, mark)) {
+            this.optimistic.rebase(this.snapshot.state);
+            this.notifyUpdate(this.optimistic.get(), localEffects([]));
+        }
+    }
+
+    private handleOnline = (): void => {
+        this.replayOutbox();
+    };
+
+    /**
+     * Apply a snapshot pushed by the server
+     */
+    private applyPush(message: PushMessage): void {
+        if (message.snapshot.memo.id !== this.getId()) {
+            return;
+        }
+
+        this.snapshot = message.snapshot;
+        this.optimistic.rebase(message.snapshot.state);
+        this.saveSnapshot();
+        this.syncChildren();
+        this.applyEffects(message.effects ?? localEffects([]));
+    }
+
+    /**
+     * Apply a `snapshot` stream event, which unlike a transport push is not
+     * routed by component ID
+     */
+    private applyStreamSnapshot(message: PushMessage): void {
+        const snapshot = message?.snapshot;
+
+        if (snapshot?.memo?.id !== this.getId() || typeof snapshot.checksum !== 'string') {
+            console.warn('Ignoring LiveGo snapshot event for a different component');
+            return;
+        }
+
+        this.applyPush(message);
+    }
+
+    /**
+     * Apply a JSON Patch to the confirmed state, taking the checksum the server
+     * computed for the result
+     */
+    private applyStatePatch(message: StatePatchMessage): void {
+        // A patch computed against another snapshot, or one that cannot tell,
+        // would leave state and checksum out of sync
+        if (message.previousChecksum !== this.snapshot.checksum) {
+            console.warn('Ignoring LiveGo state patch computed against a different snapshot');
+            return;
+        }
+
+        let state;
+        try {
+            state = applyJsonPatch(this.snapshot.state, message.patch);
+        } catch (error) {
+            console.error('Failed to apply LiveGo state patch:', error);
+            return;
+        }
+
+        this.applyPush({
+            snapshot: { ...this.snapshot, state, checksum: message.checksum },
+            effects: message.effects ?? localEffects(patchedFields(message.patch)),
+        });
+    }
+
+    /**
+     * Store the confirmed snapshot when persisting; failures only cost the restore
+     */
+    private saveSnapshot(): void {
+        if (!this.persist) {
+            return;
+        }
+
+        const { key, storage } = this.persist;
+        Promise.resolve()
+            .then(() => storage.set(key, this.snapshot))
+            .catch((error) => console.warn('Failed to persist LiveGo snapshot:', error));
+    }
+
+    /**
+     * Dispose the children the server no longer lists and push newer embedded
+     * snapshots to the rest
+     */
+    private syncChildren(): void {
+        const ids = this.getChildIds();
+
+        this.children.forEach((child, id) => {
+            if (!ids.includes(id)) {
+                this.children.delete(id);
+                child.dispose();
+                return;
+            }
+
+            const snapshot = this.snapshot.children?.[id];
+            if (snapshot && snapshot.checksum !== child.getSnapshot().checksum) {
+                child.applyPush({ snapshot });
+            }
+        });
+    }
+
+    /**
+     * Notify subscribers of server effects, then run the effect handlers if enabled
+     */
+    private applyEffects(effects: Effects): void {
+        this.notifyUpdate(this.optimistic.get(), effects);
+
+        if (this.handleEffects && !this.disposed) {
+            processEffects(
+                this.handleHtml ? effects : { ...effects, html: null },
+                { componentId: this.getId(), componentName: this.getName() }
+            );
+        }
+    }
+
+    /**
+     * Notify all subscribers of state change, passing the top-level keys that
+     * changed since the last notification
      */
     private notifyUpdate(state: any, effects: Effects): void {
+        const previous = this.notifiedState;
+        const pending = this.optimistic.getPendingFields();
+        // Only fields marked dirty or touched by optimistic patches can have
+        // changed; without dirty fields the whole state is diffed
+        const changed = changedKeys(
+            previous,
+            state,
+            effects.dirty?.length ? [...effects.dirty, ...this.notifiedPending, ...pending] : undefined
+        );
+        this.notifiedState = state;
+        this.notifiedPending = pending;
+
         this.updateCallbacks.forEach((callback) => {
             try {
-                callback(state, effects);
+                callback(state, effects, changed);
             } catch (error) {
                 console.error('Error in LiveGo update callback:', error);
             }
         });
+
+        if (changed.length > 0) {
+            this.notifyFieldChanges(previous, state, changed);
+        }
+    }
+
+    private notifyFieldChanges(previous: any, state: any, changed: string[]): void {
+        this.fieldCallbacks.forEach((callbacks, path) => {
+            if (!changed.includes(path.split('.')[0])) {
+                return;
+            }
+
+            const before = readPath(previous, path);
+            const after = readPath(state, path);
+            if (isEqual(before, after)) {
+                return;
+            }
+
+            callbacks.forEach((callback) => {
+                try {
+                    callback(after, before);
+                } catch (error) {
+                    console.error('Error in LiveGo field change callback:', error);
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Pick the transport for per-component options, falling back to the global
+ * configuration and finally to an HTTP client
+ */
+function createTransport(options: LiveGoOptions): Transport {
+    const transport = options.transport ?? getTransport();
+    if (transport) {
+        return transport;
     }
+
+    const endpoint = options.endpoint || getEndpoint();
+    const credentials = options.credentials || getCredentials();
+    const headers = options.headers || getHeaders();
+    const retry = { ...getRetry(), ...options.retry };
+    const timeout = options.timeout ?? getTimeout();
+    const global = getInterceptors();
+    const interceptors = {
+        request: [...global.request, ...(options.interceptors?.request ?? [])],
+        response: [...global.response, ...(options.interceptors?.response ?? [])],
+    };
+
+    return new LiveGoClient(endpoint, credentials, headers, { retry, timeout, interceptors });
+}
+
+/**
+ * Mount a component on the server, sharing the request and reusing its
+ * snapshot as the `cache` option allows
+ */
+async function fetchSnapshot(
+    transport: Transport,
+    componentName: string,
+    props: Record<string, any>,
+    options: LiveGoOptions
+): Promise<ComponentSnapshot> {
+    if (options.cache) {
+        return cachedMount(
+            mountKey(componentName, props),
+            options.cache === true ? 0 : options.cache.ttl ?? 0,
+            async () => (await transport.mount({ component: componentName, props })).snapshot,
+            options.signal
+        );
+    }
+
+    const response = await transport.mount({ component: componentName, props }, { signal: options.signal });
+    return response.snapshot;
+}
+
+/**
+ * Whether an `attachStream()` source is a stream rather than options. Checked
+ * by shape, as the stream may come from another copy of the library.
+ */
+function isStream(source: LiveGoStream<any> | StreamOptions): source is LiveGoStream<any> {
+    const stream = source as Partial<LiveGoStream<any>>;
+    return typeof stream.on === 'function' && typeof stream.connect === 'function' && typeof stream.disconnect === 'function';
+}
+
+/**
+ * Normalize the `persist` option, falling back to the configured storage
+ */
+function persistOptions(persist: string | PersistOptions): Required<PersistOptions> {
+    const options = typeof persist === 'string' ? { key: persist } : persist;
+    return { key: options.key, storage: options.storage ?? getStorage() };
+}
+
+/**
+ * Effects for state changes that happened locally, without a server response
+ */
+function localEffects(dirty: string[]): Effects {
+    return {
+        dirty,
+        dispatches: [],
+        redirects: null,
+        html: null,
+    };
 }
\ No newline at end of file
@@ -1,6 +1,15 @@
+import type { HtmlHandler, Interceptors, RedirectHandler, RetryPolicy, SnapshotStorage, Transport } from '../types';
+import { configureHtmlHandler, configureRedirectHandler } from './effects';
+import { SessionSnapshotStorage } from './storage';
+
 let globalEndpoint = '/api/livego';
 let globalCredentials: RequestCredentials = 'include';
 let globalHeaders: Record<string, string> = {};
+let globalRetry: RetryPolicy = {};
+let globalTimeout = 0;
+let globalInterceptors: Required<Interceptors> = { request: [], response: [] };
+let globalTransport: Transport | null = null;
+let globalStorage: SnapshotStorage<any> = new SessionSnapshotStorage();
 
 export function configureEndpoint(endpoint: string): void {
     globalEndpoint = endpoint;
@@ -26,12 +35,75 @@ export function getHeaders(): Record<string, string> {
     return { ...globalHeaders };
 }
 
+export function configureRetry(retry: RetryPolicy): void {
+    globalRetry = { ...retry };
+}
+
+export function getRetry(): RetryPolicy {
+    return { ...globalRetry };
+}
+
+export function configureTimeout(timeout: number): void {
+    globalTimeout = timeout;
+}
+
+export function getTimeout(): number {
+    return globalTimeout;
+}
+
+export function configureInterceptors(interceptors: Interceptors): void {
+    globalInterceptors = {
+        request: [...(interceptors.request ?? [])],
+        response: [...(interceptors.response ?? [])],
+    };
+}
+
+export function getInterceptors(): Required<Interceptors> {
+    return {
+        request: [...globalInterceptors.request],
+        response: [...globalInterceptors.response],
+    };
+}
+
+export function configureTransport(transport: Transport | null): void {
+    globalTransport = transport;
+}
+
+export function getTransport(): Transport | null {
+    return globalTransport;
+}
+
+/**
+ * Set where persisted snapshots are kept. Pass null to go back to `sessionStorage`.
+ */
+export function configureStorage(storage: SnapshotStorage<any> | null): void {
+    globalStorage = storage ?? new SessionSnapshotStorage();
+}
+
+export function getStorage(): SnapshotStorage<any> {
+    return globalStorage;
+}
+
 export function configure(options: {
     endpoint?: string;
     credentials?: RequestCredentials;
     headers?: Record<string, string>;
+    retry?: RetryPolicy;
+    timeout?: number;
+    interceptors?: Interceptors;
+    transport?: Transport;
+    storage?: SnapshotStorage<any>;
+    redirectHandler?: RedirectHandler;
+    htmlHandler?: HtmlHandler;
 }): void {
     if (options.endpoint) configureEndpoint(options.endpoint);
     if (options.credentials) configureCredentials(options.credentials);
     if (options.headers) configureHeaders(options.headers);
+    if (options.retry) configureRetry(options.retry);
+    if (options.timeout !== undefined) configureTimeout(options.timeout);
+    if (options.interceptors) configureInterceptors(options.interceptors);
+    if (options.transport) configureTransport(options.transport);
+    if (options.storage) configureStorage(options.storage);
+    if (options.redirectHandler) configureRedirectHandler(options.redirectHandler);
+    if (options.htmlHandler) configureHtmlHandler(options.htmlHandler);
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * Structural equality for JSON-like values
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+
+    return aKeys.length === bKeys.length
+        && aKeys.every((key) => Object.prototype.hasOwnProperty.call(b, key)
+            && isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Top-level keys whose values differ between two states. When the server
+ * names the fields it changed, only those are compared.
+ */
+export function changedKeys(
+    previous: Record<string, any>,
+    next: Record<string, any>,
+    candidates?: string[]
+): string[] {
+    const keys = candidates
+        ? candidates.map((path) => path.split('.')[0])
+        : Object.keys({ ...previous, ...next });
+
+    return Array.from(new Set(keys)).filter((key) => !isEqual(previous[key], next[key]));
+}
+
+/**
+ * Read a dot-separated path (`user.address.city`, `items.0.title`)
+ */
+export function readPath(state: Record<string, any>, path: string): any {
+    return path
+        .trim()
+        .split('.')
+        .reduce((value, key) => (value == null ? undefined : value[key]), state as any);
+}
@@ -0,0 +1,112 @@
+import type {
+    DispatchHandler,
+    DispatchOptions,
+    DispatchParams,
+    EffectSource,
+    Effects,
+    HtmlHandler,
+    RedirectHandler,
+} from '../types';
+import { findTargets } from './registry';
+
+const defaultRedirectHandler: RedirectHandler = (url) => {
+    if (typeof window !== 'undefined') {
+        window.location.assign(url);
+    }
+};
+
+let redirectHandler: RedirectHandler = defaultRedirectHandler;
+let htmlHandler: HtmlHandler | null = null;
+const dispatchHandlers = new Map<string, Set<DispatchHandler<any>>>();
+
+/**
+ * Set how redirects are followed, e.g. with a router's `push`.
+ * Pass null to go back to `location.assign`.
+ */
+export function configureRedirectHandler(handler: RedirectHandler | null): void {
+    redirectHandler = handler ?? defaultRedirectHandler;
+}
+
+export function getRedirectHandler(): RedirectHandler {
+    return redirectHandler;
+}
+
+/**
+ * Set what is done with HTML sent by the server. Pass null to ignore it.
+ */
+export function configureHtmlHandler(handler: HtmlHandler | null): void {
+    htmlHandler = handler;
+}
+
+export function getHtmlHandler(): HtmlHandler | null {
+    return htmlHandler;
+}
+
+/**
+ * Listen for an event dispatched by any component, returning a function that
+ * stops listening
+ */
+export function onDispatch<K extends string>(name: K, handler: DispatchHandler<K>): () => void {
+    if (!dispatchHandlers.has(name)) {
+        dispatchHandlers.set(name, new Set());
+    }
+
+    dispatchHandlers.get(name)!.add(handler);
+
+    return () => {
+        const handlers = dispatchHandlers.get(name);
+        if (handlers) {
+            handlers.delete(handler);
+            if (handlers.size === 0) {
+                dispatchHandlers.delete(name);
+            }
+        }
+    };
+}
+
+/**
+ * Deliver an event to its `onDispatch` handlers and to the `listen` handlers
+ * of the targeted components, as if a component had dispatched it
+ */
+export function dispatch<K extends string>(
+    name: K,
+    params?: DispatchParams<K>,
+    options: DispatchOptions = {}
+): void {
+    const source = options.source ?? null;
+    const handlers = Array.from(dispatchHandlers.get(name) ?? []);
+
+    handlers.forEach((handler) => {
+        try {
+            handler(params, source);
+        } catch (error) {
+            console.error(`Error in LiveGo dispatch handler for "${name}":`, error);
+        }
+    });
+
+    findTargets(options.target, source?.componentId).forEach((component) => {
+        component.receiveDispatch(name, params, source);
+    });
+}
+
+/**
+ * Run the registered handlers for a response's effects: dispatches first,
+ * then HTML, then the redirect
+ */
+export function processEffects(effects: Effects, source: EffectSource): void {
+    effects.dispatches?.forEach((event) => {
+        dispatch(event.name, event.params, { target: event.target, source });
+    });
+
+    if (effects.html && htmlHandler) {
+        try {
+            htmlHandler(effects.html, source);
+        } catch (error) {
+            console.error('Error in LiveGo html handler:', error);
+        }
+    }
+
+    if (effects.redirects) {
+        redirectHandler(effects.redirects);
+    }
+}
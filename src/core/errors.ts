@@ -0,0 +1,218 @@
+import type { ErrorResponse } from '../types';
+
+/**
+ * Base class for every error thrown by LiveGo.
+ *
+ * Keeps the `ErrorResponse` shape, so `error`, `message`, `code` and
+ * `details` are available whichever subclass is thrown.
+ */
+export class LiveGoError extends Error implements ErrorResponse {
+    readonly error: string;
+    readonly code: number;
+    readonly details?: Record<string, any>;
+    readonly cause?: unknown;
+
+    constructor(response: ErrorResponse, cause?: unknown) {
+        super(response.message);
+        this.name = 'LiveGoError';
+        this.error = response.error;
+        this.code = response.code;
+        this.details = response.details;
+        this.cause = cause;
+    }
+
+    toJSON(): ErrorResponse {
+        return {
+            error: this.error,
+            message: this.message,
+            code: this.code,
+            details: this.details,
+        };
+    }
+}
+
+/**
+ * The server answered with a non-2xx status
+ */
+export class LiveGoHttpError extends LiveGoError {
+    readonly status: number;
+
+    constructor(response: ErrorResponse, status: number = response.code) {
+        super(response);
+        this.name = 'LiveGoHttpError';
+        this.status = status;
+    }
+}
+
+/**
+ * The server rejected the snapshot because its checksum did not match
+ */
+export class LiveGoChecksumError extends LiveGoHttpError {
+    constructor(response: ErrorResponse, status?: number) {
+        super(response, status);
+        this.name = 'LiveGoChecksumError';
+    }
+}
+
+/**
+ * The server rejected the update with per-field validation messages
+ */
+export class LiveGoValidationError extends LiveGoHttpError {
+    readonly errors: Record<string, string[]>;
+
+    constructor(response: ErrorResponse, status?: number) {
+        super(response, status);
+        this.name = 'LiveGoValidationError';
+        this.errors = parseFieldErrors(response.details);
+    }
+
+    /**
+     * Get the first message for each invalid field
+     */
+    firstErrors(): Record<string, string> {
+        const first: Record<string, string> = {};
+        Object.entries(this.errors).forEach(([field, messages]) => {
+            first[field] = messages[0];
+        });
+        return first;
+    }
+}
+
+/**
+ * The request never reached the server or no response came back
+ */
+export class LiveGoNetworkError extends LiveGoError {
+    constructor(cause: unknown, error: string = 'NETWORK_ERROR') {
+        super(
+            {
+                error,
+                message: cause instanceof Error ? cause.message : 'Network request failed',
+                code: 0,
+            },
+            cause
+        );
+        this.name = 'LiveGoNetworkError';
+    }
+}
+
+/**
+ * The request took longer than the configured timeout
+ */
+export class LiveGoTimeoutError extends LiveGoNetworkError {
+    readonly timeout: number;
+
+    constructor(timeout: number) {
+        super(new Error(`Request timed out after ${timeout}ms`), 'TIMEOUT');
+        this.name = 'LiveGoTimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * The request was cancelled through an AbortSignal
+ */
+export class LiveGoAbortError extends LiveGoError {
+    constructor() {
+        super({
+            error: 'ABORTED',
+            message: 'LiveGo request aborted',
+            code: 0,
+        });
+        this.name = 'LiveGoAbortError';
+    }
+}
+
+/**
+ * An operation was attempted before the component was mounted
+ */
+export class LiveGoNotMountedError extends LiveGoError {
+    constructor() {
+        super({
+            error: 'NOT_MOUNTED',
+            message: 'LiveGo component not mounted',
+            code: 0,
+        });
+        this.name = 'LiveGoNotMountedError';
+    }
+}
+
+/**
+ * The parent has no child component with this ID, or did not send its snapshot
+ */
+export class LiveGoChildNotFoundError extends LiveGoError {
+    readonly childId: string;
+
+    constructor(childId: string) {
+        super({
+            error: 'CHILD_NOT_FOUND',
+            message: `LiveGo child component ${childId} not found`,
+            code: 0,
+        });
+        this.name = 'LiveGoChildNotFoundError';
+        this.childId = childId;
+    }
+}
+
+/**
+ * A request was made through a transport that has been closed
+ */
+export class LiveGoTransportClosedError extends LiveGoError {
+    constructor() {
+        super({
+            error: 'TRANSPORT_CLOSED',
+            message: 'LiveGo transport closed',
+            code: 0,
+        });
+        this.name = 'LiveGoTransportClosedError';
+    }
+}
+
+/**
+ * Build the matching error class for an error response from the server
+ */
+export function createHttpError(response: ErrorResponse, status: number): LiveGoHttpError {
+    const kind = (response.error || '').toUpperCase();
+
+    if (kind.includes('CHECKSUM')) {
+        return new LiveGoChecksumError(response, status);
+    }
+
+    if (status === 422 || kind.includes('VALIDATION')) {
+        return new LiveGoValidationError(response, status);
+    }
+
+    return new LiveGoHttpError(response, status);
+}
+
+/**
+ * Normalize anything thrown into a LiveGoError
+ */
+export function toLiveGoError(error: unknown): LiveGoError {
+    if (error instanceof LiveGoError) {
+        return error;
+    }
+
+    return new LiveGoError(
+        {
+            error: 'UNKNOWN_ERROR',
+            message: error instanceof Error ? error.message : String(error),
+            code: 0,
+        },
+        error
+    );
+}
+
+function parseFieldErrors(details?: Record<string, any>): Record<string, string[]> {
+    const source = details?.errors ?? details ?? {};
+    const errors: Record<string, string[]> = {};
+
+    Object.entries(source).forEach(([field, messages]) => {
+        if (Array.isArray(messages)) {
+            errors[field] = messages.map(String);
+        } else if (messages !== null && messages !== undefined) {
+            errors[field] = [String(messages)];
+        }
+    });
+
+    return errors;
+}
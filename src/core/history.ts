@@ -0,0 +1,60 @@
+import type { ComponentSnapshot } from '../types';
+
+/**
+ * Bounded list of confirmed snapshots with a cursor at the current one.
+ *
+ * Recording after stepping back drops the snapshots that could have been
+ * redone, like in any editor.
+ */
+export class History {
+    private entries: ComponentSnapshot[];
+    private index = 0;
+    private readonly limit: number;
+
+    constructor(initial: ComponentSnapshot, limit: number = 50) {
+        this.entries = [initial];
+        this.limit = Math.max(1, limit);
+    }
+
+    /**
+     * Add a snapshot after the current one
+     */
+    record(snapshot: ComponentSnapshot): void {
+        this.entries = [...this.entries.slice(0, this.index + 1), snapshot].slice(-this.limit);
+        this.index = this.entries.length - 1;
+    }
+
+    /**
+     * Swap the current snapshot for the one the server confirmed after stepping to it
+     */
+    replace(snapshot: ComponentSnapshot): void {
+        this.entries[this.index] = snapshot;
+    }
+
+    /**
+     * Get the snapshot `step` entries away from the current one, if there is one
+     */
+    peek(step: number): ComponentSnapshot | undefined {
+        return this.entries[this.index + step];
+    }
+
+    /**
+     * Move the cursor by `step` entries, if possible
+     */
+    go(step: number): boolean {
+        if (!this.peek(step)) {
+            return false;
+        }
+
+        this.index += step;
+        return true;
+    }
+
+    canUndo(): boolean {
+        return this.index > 0;
+    }
+
+    canRedo(): boolean {
+        return this.index < this.entries.length - 1;
+    }
+}
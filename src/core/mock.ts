@@ -0,0 +1,87 @@
+import type {
+    MountRequest,
+    MountResponse,
+    PushMessage,
+    RequestOptions,
+    Transport,
+    UpdateRequest,
+    UpdateResponse,
+} from '../types';
+import { LiveGoAbortError } from './errors';
+
+export interface MockTransportHandlers {
+    mount?: (request: MountRequest) => MountResponse | Promise<MountResponse>;
+    update?: (request: UpdateRequest) => UpdateResponse | Promise<UpdateResponse>;
+}
+
+export type MockTransportCall =
+    | { type: 'mount'; request: MountRequest }
+    | { type: 'update'; request: UpdateRequest };
+
+/**
+ * In-memory transport for tests.
+ *
+ * Requests are answered by the given handlers and recorded in `calls`;
+ * `push()` simulates a snapshot pushed by the server.
+ */
+export class MockTransport implements Transport {
+    readonly calls: MockTransportCall[] = [];
+    private handlers: MockTransportHandlers;
+    private subscribers = new Map<string, Set<(message: PushMessage) => void>>();
+
+    constructor(handlers: MockTransportHandlers = {}) {
+        this.handlers = handlers;
+    }
+
+    /**
+     * Replace the handlers answering requests
+     */
+    respond(handlers: MockTransportHandlers): void {
+        this.handlers = { ...this.handlers, ...handlers };
+    }
+
+    async mount(request: MountRequest, options: RequestOptions = {}): Promise<MountResponse> {
+        this.calls.push({ type: 'mount', request });
+        return this.handle(this.handlers.mount, request, options);
+    }
+
+    async update(request: UpdateRequest, options: RequestOptions = {}): Promise<UpdateResponse> {
+        this.calls.push({ type: 'update', request });
+        return this.handle(this.handlers.update, request, options);
+    }
+
+    subscribe(componentId: string, listener: (message: PushMessage) => void): () => void {
+        if (!this.subscribers.has(componentId)) {
+            this.subscribers.set(componentId, new Set());
+        }
+
+        this.subscribers.get(componentId)!.add(listener);
+
+        return () => {
+            this.subscribers.get(componentId)?.delete(listener);
+        };
+    }
+
+    /**
+     * Deliver a server push to the component with the given ID
+     */
+    push(componentId: string, message: PushMessage): void {
+        this.subscribers.get(componentId)?.forEach((listener) => listener(message));
+    }
+
+    private async handle<Req, Res>(
+        handler: ((request: Req) => Res | Promise<Res>) | undefined,
+        request: Req,
+        options: RequestOptions
+    ): Promise<Res> {
+        if (options.signal?.aborted) {
+            throw new LiveGoAbortError();
+        }
+
+        if (!handler) {
+            throw new Error('MockTransport has no handler for this request');
+        }
+
+        return handler(request);
+    }
+}
@@ -0,0 +1,112 @@
+import type { Predictor, Update } from '../types';
+
+interface Patch {
+    seq: number;
+    field?: string;
+    update?: Update;
+    apply: (state: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Local state view layered over the last confirmed snapshot.
+ *
+ * Patches are replayed over the confirmed state every time it changes, and
+ * dropped once the request carrying them lands or fails. Failing simply
+ * drops the patch, which rolls the view back to what the server confirmed.
+ */
+export class OptimisticState {
+    private patches: Patch[] = [];
+    private seq = 0;
+    private state: Record<string, any>;
+    private pendingFields: string[] = [];
+
+    constructor(confirmed: Record<string, any>) {
+        this.state = confirmed;
+    }
+
+    /**
+     * Get the confirmed state with all pending patches applied
+     */
+    get(): Record<string, any> {
+        return this.state;
+    }
+
+    /**
+     * Get the fields touched by patches that have not landed yet
+     */
+    getPendingFields(): string[] {
+        return this.pendingFields;
+    }
+
+    /**
+     * Patch a single field until a syncInput for it lands
+     */
+    patchField(field: string, value: any): void {
+        this.patches.push({
+            seq: ++this.seq,
+            field,
+            apply: () => ({ [field]: value }),
+        });
+    }
+
+    /**
+     * Patch the state with a predictor until the given callMethod update lands
+     */
+    patchCall(update: Update, predict: Predictor): void {
+        const params = update.payload.params ?? [];
+
+        this.patches.push({
+            seq: ++this.seq,
+            update,
+            apply: (state) => predict(state, ...params),
+        });
+    }
+
+    /**
+     * Mark the patches that exist right before a request is sent
+     */
+    mark(): number {
+        return this.seq;
+    }
+
+    /**
+     * Drop the patches carried by a request that landed or failed
+     */
+    settle(updates: Update[], mark: number): boolean {
+        const fields = new Set(
+            updates
+                .filter((update) => update.type === 'syncInput')
+                .map((update) => update.payload.field)
+        );
+
+        const before = this.patches.length;
+        this.patches = this.patches.filter((patch) => {
+            if (patch.seq > mark) {
+                return true;
+            }
+
+            if (patch.update) {
+                return !updates.includes(patch.update);
+            }
+
+            return !fields.has(patch.field);
+        });
+
+        return this.patches.length !== before;
+    }
+
+    /**
+     * Replay pending patches over a newly confirmed state
+     */
+    rebase(confirmed: Record<string, any>): void {
+        const pending = new Set<string>();
+
+        this.state = this.patches.reduce((state, patch) => {
+            const changes = patch.apply(state);
+            Object.keys(changes).forEach((field) => pending.add(field));
+            return { ...state, ...changes };
+        }, confirmed);
+
+        this.pendingFields = Array.from(pending);
+    }
+}
@@ -0,0 +1,224 @@
+import type {
+    ComponentSnapshot,
+    ConflictResolution,
+    OfflineOptions,
+    OutboxCallback,
+    OutboxState,
+    PersistOptions,
+    Update,
+} from '../types';
+import { LiveGoAbortError, LiveGoChecksumError, LiveGoNetworkError, LiveGoTimeoutError, toLiveGoError } from './errors';
+
+interface OutboxEntry {
+    updates: Update[];
+    /** Optimistic mark taken when the updates were queued, 0 for entries loaded from storage */
+    mark: number;
+}
+
+export interface OutboxHandlers {
+    /** Send queued updates with the latest snapshot and apply the response */
+    send: (updates: Update[], mark: number) => Promise<void>;
+    /** Roll back queued updates that will never be sent */
+    drop: (updates: Update[], mark: number) => void;
+    snapshot: () => ComponentSnapshot;
+}
+
+/**
+ * Updates that could not be sent because the network was down.
+ *
+ * Entries are replayed one at a time, in the order they were queued, and
+ * stay queued while the connection keeps failing. With persist options, the
+ * queue is saved under `<key>:outbox` so it survives reloads.
+ */
+export class Outbox {
+    private entries: OutboxEntry[] = [];
+    private state: OutboxState = 'idle';
+    private callbacks = new Set<OutboxCallback>();
+    private readonly handlers: OutboxHandlers;
+    private readonly options: OfflineOptions;
+    private readonly persist: Required<PersistOptions> | null;
+
+    constructor(handlers: OutboxHandlers, options: OfflineOptions = {}, persist: Required<PersistOptions> | null = null) {
+        this.handlers = handlers;
+        this.options = options;
+        this.persist = persist && { ...persist, key: `${persist.key}:outbox` };
+    }
+
+    /**
+     * Put entries saved by a previous page in front of anything queued since
+     */
+    async load(): Promise<void> {
+        if (!this.persist) {
+            return;
+        }
+
+        let stored: Update[][] | null = null;
+        try {
+            stored = await this.persist.storage.get(this.persist.key);
+        } catch (error) {
+            console.warn('Failed to read persisted LiveGo outbox:', error);
+        }
+
+        if (stored?.length) {
+            this.entries = [...stored.map((updates) => ({ updates, mark: 0 })), ...this.entries];
+            this.changed();
+        }
+    }
+
+    /**
+     * Queue updates until the connection returns
+     */
+    push(updates: Update[], mark: number): void {
+        this.entries.push({ updates, mark });
+        this.changed();
+    }
+
+    /**
+     * Number of queued requests
+     */
+    size(): number {
+        return this.entries.length;
+    }
+
+    getState(): OutboxState {
+        return this.state;
+    }
+
+    /**
+     * Subscribe to changes of the size or state, returning an unsubscribe function
+     */
+    onChange(callback: OutboxCallback): () => void {
+        this.callbacks.add(callback);
+
+        return () => {
+            this.callbacks.delete(callback);
+        };
+    }
+
+    /**
+     * Send the queued updates in order, stopping at the first one that still
+     * cannot reach the server
+     */
+    async replay(): Promise<void> {
+        if (this.state === 'replaying' || this.entries.length === 0) {
+            return;
+        }
+
+        this.state = 'replaying';
+        this.notify();
+
+        try {
+            while (this.entries.length > 0) {
+                const entry = this.entries[0];
+
+                try {
+                    await this.handlers.send(entry.updates, entry.mark);
+                    this.entries.shift();
+                    this.changed();
+                } catch (error) {
+                    if (error instanceof LiveGoAbortError || isConnectionError(error)) {
+                        return;
+                    }
+
+                    const resolution = error instanceof LiveGoChecksumError
+                        ? await this.resolveConflict(error, entry.updates)
+                        : this.reportError(error, entry.updates);
+
+                    if (resolution === 'keep') {
+                        return;
+                    }
+
+                    if (resolution === 'discard') {
+                        this.entries.shift();
+                        this.handlers.drop(entry.updates, entry.mark);
+                    } else {
+                        entry.updates = resolution;
+                    }
+                    this.changed();
+                }
+            }
+        } finally {
+            this.state = this.entries.length > 0 ? 'waiting' : 'idle';
+            this.notify();
+        }
+    }
+
+    private async resolveConflict(error: LiveGoChecksumError, updates: Update[]): Promise<ConflictResolution> {
+        if (!this.options.onConflict) {
+            return this.reportError(error, updates);
+        }
+
+        try {
+            return await this.options.onConflict({ error, updates, snapshot: this.handlers.snapshot() });
+        } catch (handlerError) {
+            console.error('Error in LiveGo conflict handler:', handlerError);
+            return 'keep';
+        }
+    }
+
+    private reportError(error: unknown, updates: Update[]): 'discard' {
+        const liveGoError = toLiveGoError(error);
+
+        if (this.options.onError) {
+            try {
+                this.options.onError(liveGoError, updates);
+            } catch (handlerError) {
+                console.error('Error in LiveGo outbox error handler:', handlerError);
+            }
+        } else {
+            console.error('LiveGo dropped queued updates the server rejected:', liveGoError);
+        }
+
+        return 'discard';
+    }
+
+    /**
+     * Save the queue and tell subscribers after adding or removing entries
+     */
+    private changed(): void {
+        if (this.state !== 'replaying') {
+            this.state = this.entries.length > 0 ? 'waiting' : 'idle';
+        }
+
+        this.save();
+        this.notify();
+    }
+
+    private save(): void {
+        if (!this.persist) {
+            return;
+        }
+
+        const { key, storage } = this.persist;
+        const updates = this.entries.map((entry) => entry.updates);
+
+        Promise.resolve()
+            .then(() => (updates.length > 0 ? storage.set(key, updates) : storage.remove(key)))
+            .catch((error) => console.warn('Failed to persist LiveGo outbox:', error));
+    }
+
+    private notify(): void {
+        this.callbacks.forEach((callback) => {
+            try {
+                callback(this.entries.length, this.state);
+            } catch (error) {
+                console.error('Error in LiveGo outbox callback:', error);
+            }
+        });
+    }
+}
+
+/**
+ * Whether a request failed without reaching the server. Timeouts do not
+ * count, as the server may have applied the updates.
+ */
+export function isConnectionError(error: unknown): boolean {
+    return error instanceof LiveGoNetworkError && !(error instanceof LiveGoTimeoutError);
+}
+
+/**
+ * Whether the browser knows it is offline
+ */
+export function isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
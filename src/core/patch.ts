@@ -0,0 +1,134 @@
+import type { JsonPatchOperation } from '../types';
+
+/**
+ * Apply a JSON Patch (RFC 6902) to a copy of the document
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+    let result: any = clone(document);
+
+    patch.forEach((operation) => {
+        switch (operation.op) {
+            case 'add':
+                result = add(result, parsePointer(operation.path), clone(operation.value));
+                break;
+            case 'remove':
+                result = remove(result, parsePointer(operation.path));
+                break;
+            case 'replace':
+                result = add(remove(result, parsePointer(operation.path)), parsePointer(operation.path), clone(operation.value));
+                break;
+            case 'move': {
+                const value = get(result, parsePointer(operation.from));
+                result = add(remove(result, parsePointer(operation.from)), parsePointer(operation.path), value);
+                break;
+            }
+            case 'copy':
+                result = add(result, parsePointer(operation.path), clone(get(result, parsePointer(operation.from))));
+                break;
+            case 'test':
+                if (JSON.stringify(get(result, parsePointer(operation.path))) !== JSON.stringify(operation.value)) {
+                    throw new Error(`JSON Patch test failed at ${operation.path}`);
+                }
+                break;
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Top-level state fields touched by a patch
+ */
+export function patchedFields(patch: JsonPatchOperation[]): string[] {
+    const fields = new Set<string>();
+
+    patch.forEach((operation) => {
+        const [field] = parsePointer(operation.path);
+        if (field !== undefined && operation.op !== 'test') {
+            fields.add(field);
+        }
+        if (operation.op === 'move') {
+            const [from] = parsePointer(operation.from);
+            if (from !== undefined) {
+                fields.add(from);
+            }
+        }
+    });
+
+    return Array.from(fields);
+}
+
+function parsePointer(pointer: string): string[] {
+    if (pointer === '') {
+        return [];
+    }
+
+    if (!pointer.startsWith('/')) {
+        throw new Error(`Invalid JSON Pointer: ${pointer}`);
+    }
+
+    return pointer
+        .slice(1)
+        .split('/')
+        .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function get(document: any, path: string[]): any {
+    return path.reduce((node, token) => {
+        if (node === null || typeof node !== 'object' || !(token in node)) {
+            throw new Error(`JSON Patch path not found: /${path.join('/')}`);
+        }
+        return node[token];
+    }, document);
+}
+
+function add(document: any, path: string[], value: any): any {
+    if (path.length === 0) {
+        return value;
+    }
+
+    const parent = get(document, path.slice(0, -1));
+    const token = path[path.length - 1];
+
+    if (Array.isArray(parent)) {
+        const index = token === '-' ? parent.length : arrayIndex(token, parent.length);
+        parent.splice(index, 0, value);
+    } else if (parent !== null && typeof parent === 'object') {
+        parent[token] = value;
+    } else {
+        throw new Error(`JSON Patch path not found: /${path.join('/')}`);
+    }
+
+    return document;
+}
+
+function remove(document: any, path: string[]): any {
+    if (path.length === 0) {
+        return undefined;
+    }
+
+    const parent = get(document, path.slice(0, -1));
+    const token = path[path.length - 1];
+
+    if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(token, parent.length - 1), 1);
+    } else if (parent !== null && typeof parent === 'object' && token in parent) {
+        delete parent[token];
+    } else {
+        throw new Error(`JSON Patch path not found: /${path.join('/')}`);
+    }
+
+    return document;
+}
+
+function arrayIndex(token: string, max: number): number {
+    const index = Number(token);
+    if (!/^(0|[1-9][0-9]*)$/.test(token) || index > max) {
+        throw new Error(`Invalid JSON Patch array index: ${token}`);
+    }
+    return index;
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
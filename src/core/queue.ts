@@ -0,0 +1,151 @@
+import type { Update } from '../types';
+import { LiveGoAbortError } from './errors';
+
+interface QueuedUpdates {
+    updates: Update[];
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Serializes updates for a single component.
+ *
+ * Only one request is in flight at a time. Everything queued while it is
+ * in flight is merged into the next request, in the order it was pushed,
+ * with repeated inputs for a field collapsed to the last value.
+ */
+export class UpdateQueue {
+    private pending: QueuedUpdates[] = [];
+    private flushing = false;
+    private readonly send: (updates: Update[]) => Promise<void>;
+    private readonly drop: (updates: Update[]) => void;
+
+    constructor(
+        send: (updates: Update[]) => Promise<void>,
+        drop: (updates: Update[]) => void = () => {}
+    ) {
+        this.send = send;
+        this.drop = drop;
+    }
+
+    /**
+     * Queue updates, resolving once the request carrying them has landed.
+     *
+     * Aborting the signal drops the updates if they have not been sent yet.
+     * Once sent, they still land, but the returned promise rejects right away.
+     */
+    push(updates: Update[], signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(new LiveGoAbortError());
+        }
+
+        return abortable(
+            new Promise((resolve, reject) => {
+                const entry = { updates, resolve, reject };
+
+                signal?.addEventListener('abort', () => {
+                    const index = this.pending.indexOf(entry);
+                    if (index !== -1) {
+                        this.pending.splice(index, 1);
+                        this.drop(updates);
+                    }
+                }, { once: true });
+
+                this.pending.push(entry);
+                this.flush();
+            }),
+            signal
+        );
+    }
+
+    /**
+     * Whether there are no queued or in-flight updates
+     */
+    isIdle(): boolean {
+        return !this.flushing && this.pending.length === 0;
+    }
+
+    private async flush(): Promise<void> {
+        if (this.flushing) {
+            return;
+        }
+
+        this.flushing = true;
+
+        try {
+            while (this.pending.length > 0) {
+                const batch = this.pending.splice(0);
+
+                try {
+                    await this.send(mergeInputs(batch.flatMap((entry) => entry.updates)));
+                    batch.forEach((entry) => entry.resolve());
+                } catch (error) {
+                    batch.forEach((entry) => entry.reject(error));
+                }
+            }
+        } finally {
+            this.flushing = false;
+        }
+    }
+}
+
+/**
+ * Collapse syncInputs for the same field that are not separated by a
+ * callMethod into the last one, so each method still sees the values set
+ * before it
+ */
+export function mergeInputs(updates: Update[]): Update[] {
+    const merged: Update[] = [];
+    let run: Update[] = [];
+
+    const closeRun = () => {
+        merged.push(
+            ...run.filter((update, index) =>
+                !run.slice(index + 1).some((later) => later.payload.field === update.payload.field)
+            )
+        );
+        run = [];
+    };
+
+    updates.forEach((update) => {
+        if (update.type === 'syncInput') {
+            run.push(update);
+        } else {
+            closeRun();
+            merged.push(update);
+        }
+    });
+    closeRun();
+
+    return merged;
+}
+
+/**
+ * Reject with a LiveGoAbortError as soon as the signal aborts
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+
+    if (signal.aborted) {
+        promise.catch(() => {});
+        return Promise.reject(new LiveGoAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(new LiveGoAbortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
@@ -0,0 +1,106 @@
+import type { DispatchTarget } from '../types';
+import type { LiveGoComponent } from './component';
+
+/**
+ * Live components by ID. Mounts sharing a cached snapshot are separate
+ * instances with the same ID, so each ID maps to a set.
+ */
+const components = new Map<string, Set<LiveGoComponent<any>>>();
+
+/**
+ * Track a live component by its ID, returning a function that forgets it
+ */
+export function registerComponent(component: LiveGoComponent<any>): () => void {
+    const id = component.getId();
+    const instances = components.get(id) ?? new Set<LiveGoComponent<any>>();
+    components.set(id, instances);
+    instances.add(component);
+
+    return () => {
+        instances.delete(component);
+        if (instances.size === 0 && components.get(id) === instances) {
+            components.delete(id);
+        }
+    };
+}
+
+/**
+ * Get a live component by its ID, the first one mounted if several share it
+ */
+export function getComponent(id: string): LiveGoComponent<any> | undefined {
+    return instancesOf(id)[0];
+}
+
+/**
+ * Get all live components
+ */
+export function getComponents(): LiveGoComponent<any>[] {
+    return Array.from(components.values()).flatMap((instances) => Array.from(instances));
+}
+
+/**
+ * Get the live components listing the given ID in `memo.children`
+ */
+export function getParents(id: string): LiveGoComponent<any>[] {
+    return getComponents().filter((component) => component.getSnapshot().memo.children?.includes(id));
+}
+
+/**
+ * Live components matching a dispatch target, relative to the dispatching component
+ */
+export function findTargets(target: DispatchTarget = {}, sourceId?: string): LiveGoComponent<any>[] {
+    let candidates: LiveGoComponent<any>[];
+
+    if (!target.relation) {
+        candidates = getComponents();
+    } else if (!sourceId) {
+        candidates = [];
+    } else if (target.relation === 'self') {
+        candidates = instancesOf(sourceId);
+    } else if (target.relation === 'ancestors') {
+        candidates = ancestors(sourceId);
+    } else {
+        candidates = descendants(sourceId);
+    }
+
+    return candidates.filter(
+        (component) =>
+            (!target.id || component.getId() === target.id) &&
+            (!target.name || component.getName() === target.name)
+    );
+}
+
+function instancesOf(id: string): LiveGoComponent<any>[] {
+    return Array.from(components.get(id) ?? []);
+}
+
+function ancestors(id: string): LiveGoComponent<any>[] {
+    const result: LiveGoComponent<any>[] = [];
+    const queue = getParents(id);
+
+    while (queue.length > 0) {
+        const parent = queue.shift()!;
+        if (!result.includes(parent)) {
+            result.push(parent);
+            queue.push(...getParents(parent.getId()));
+        }
+    }
+
+    return result;
+}
+
+function descendants(id: string): LiveGoComponent<any>[] {
+    const result: LiveGoComponent<any>[] = [];
+    const queue = instancesOf(id).flatMap((component) => component.getSnapshot().memo.children ?? []);
+
+    while (queue.length > 0) {
+        instancesOf(queue.shift()!).forEach((child) => {
+            if (!result.includes(child)) {
+                result.push(child);
+                queue.push(...(child.getSnapshot().memo.children ?? []));
+            }
+        });
+    }
+
+    return result;
+}
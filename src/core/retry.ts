@@ -0,0 +1,77 @@
+import type { RetryPolicy } from '../types';
+import { LiveGoAbortError } from './errors';
+
+/**
+ * Retries are opt-in: one attempt unless `attempts` is raised
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    attempts: 1,
+    baseDelay: 300,
+    maxDelay: 5000,
+    jitter: true,
+    retryOn: [408, 429, 502, 503, 504],
+    retryNetworkErrors: true,
+    retryCalls: false,
+};
+
+/**
+ * Fill in the defaults for a partial retry policy
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+    return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Exponential backoff delay before the given retry (1 = first retry)
+ */
+export function retryDelay(policy: Required<RetryPolicy>, retry: number): number {
+    const delay = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, retry - 1));
+
+    // Equal jitter: keep half the delay, randomize the other half
+    return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+    if (!header) {
+        return null;
+    }
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return null;
+}
+
+/**
+ * Wait before retrying, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new LiveGoAbortError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new LiveGoAbortError());
+        };
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,65 @@
+import type { ComponentName, ComponentProps, ComponentSnapshot, ResolveComponent, ServerMountOptions } from '../types';
+import { LiveGoClient } from './client';
+import { getEndpoint, getHeaders, getInterceptors, getRetry, getTimeout, getTransport } from './config';
+
+/**
+ * Mount a component from a server (Node, edge functions) and return its
+ * snapshot, to be rendered and then hydrated with `initialSnapshot`.
+ *
+ * `fetch` outside the browser has no page to resolve relative URLs against
+ * and no cookie jar, so the endpoint must be absolute and the incoming
+ * request's cookies are forwarded explicitly.
+ */
+export async function mountSnapshot<N extends ComponentName>(
+    componentName: N,
+    props: ComponentProps<ResolveComponent<N>> = {} as ComponentProps<ResolveComponent<N>>,
+    options: ServerMountOptions = {}
+): Promise<ComponentSnapshot> {
+    const transport = options.transport ?? getTransport() ?? createServerClient(options);
+
+    const response = await transport.mount(
+        {
+            component: componentName,
+            props,
+        },
+        { signal: options.signal }
+    );
+
+    return response.snapshot;
+}
+
+/**
+ * Serialize a snapshot for an inline `<script>`, escaping everything that
+ * could end the script element or break out of the JSON
+ */
+export function serializeSnapshot(snapshot: ComponentSnapshot): string {
+    return JSON.stringify(snapshot)
+        .replace(/</g, '\\u003c')
+        .replace(/>/g, '\\u003e')
+        .replace(/&/g, '\\u0026')
+        .replace(/\u2028/g, '\\u2028')
+        .replace(/\u2029/g, '\\u2029');
+}
+
+function createServerClient(options: ServerMountOptions): LiveGoClient {
+    const endpoint = options.endpoint || getEndpoint();
+    if (!/^https?:\/\//i.test(endpoint)) {
+        throw new Error(`Mounting outside the browser needs an absolute endpoint, got "${endpoint}"`);
+    }
+
+    const headers = { ...(options.headers || getHeaders()) };
+    if (options.cookie) {
+        headers.Cookie = options.cookie;
+    }
+
+    const global = getInterceptors();
+
+    return new LiveGoClient(endpoint, 'include', headers, {
+        retry: { ...getRetry(), ...options.retry },
+        timeout: options.timeout ?? getTimeout(),
+        interceptors: {
+            request: [...global.request, ...(options.interceptors?.request ?? [])],
+            response: [...global.response, ...(options.interceptors?.response ?? [])],
+        },
+    });
+}
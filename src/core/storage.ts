@@ -0,0 +1,90 @@
+import type { ComponentSnapshot, SnapshotStorage } from '../types';
+
+/**
+ * Keeps snapshots for the lifetime of the page, e.g. for tests or SSR
+ */
+export class MemorySnapshotStorage<V = ComponentSnapshot> implements SnapshotStorage<V> {
+    private snapshots = new Map<string, string>();
+
+    get(key: string): V | null {
+        const raw = this.snapshots.get(key);
+        return raw === undefined ? null : JSON.parse(raw);
+    }
+
+    set(key: string, value: V): void {
+        this.snapshots.set(key, JSON.stringify(value));
+    }
+
+    remove(key: string): void {
+        this.snapshots.delete(key);
+    }
+}
+
+/**
+ * Keeps snapshots as JSON in a Web Storage area.
+ *
+ * Does nothing where the storage is unavailable (server rendering, some
+ * privacy modes), and reads unparseable entries as missing.
+ */
+export class WebSnapshotStorage<V = ComponentSnapshot> implements SnapshotStorage<V> {
+    private readonly resolveStorage: () => Storage;
+    private readonly prefix: string;
+
+    constructor(resolveStorage: () => Storage, prefix: string = 'livego:') {
+        this.resolveStorage = resolveStorage;
+        this.prefix = prefix;
+    }
+
+    get(key: string): V | null {
+        const raw = this.storage()?.getItem(this.prefix + key);
+        if (!raw) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(raw);
+        } catch {
+            return null;
+        }
+    }
+
+    set(key: string, value: V): void {
+        try {
+            this.storage()?.setItem(this.prefix + key, JSON.stringify(value));
+        } catch (error) {
+            // Most likely the quota is exceeded; the snapshot is simply not persisted
+            console.warn('Failed to persist LiveGo snapshot:', error);
+        }
+    }
+
+    remove(key: string): void {
+        this.storage()?.removeItem(this.prefix + key);
+    }
+
+    private storage(): Storage | undefined {
+        try {
+            return this.resolveStorage() ?? undefined;
+        } catch {
+            // Accessing the storage throws when it is blocked
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Keeps snapshots in `sessionStorage`, surviving reloads of the same tab
+ */
+export class SessionSnapshotStorage<V = ComponentSnapshot> extends WebSnapshotStorage<V> {
+    constructor(prefix?: string) {
+        super(() => globalThis.sessionStorage, prefix);
+    }
+}
+
+/**
+ * Keeps snapshots in `localStorage`, shared by all tabs and surviving restarts
+ */
+export class LocalSnapshotStorage<V = ComponentSnapshot> extends WebSnapshotStorage<V> {
+    constructor(prefix?: string) {
+        super(() => globalThis.localStorage, prefix);
+    }
+}
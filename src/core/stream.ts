@@ -1,20 +1,28 @@
 import { getEndpoint } from './config';
-import {StreamEvent, StreamOptions} from "../types";
+import {StreamEvent, StreamEventMap, StreamOptions, StreamState} from "../types";
 
-export class LiveGoStream {
+// Named events every stream listens for, so `onEvent` sees them without `on()`
+const DEFAULT_EVENTS = ['connected', 'text-chunk', 'progress', 'notification', 'generation-complete', 'upload-complete'];
+
+export class LiveGoStream<E extends StreamEventMap = StreamEventMap> {
     private eventSource: EventSource | null = null;
-    private reconnectTimeout: number | null = null;
+    private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
     private listeners = new Map<string, Set<(data: any) => void>>();
+    private registeredEvents = new Set<string>();
     private readonly componentId: string;
-    private readonly signature: string;
+    /** A function is called again on every (re)connect, for signatures that change */
+    private readonly signature: string | (() => string);
     private readonly baseUrl: string;
     private options: StreamOptions;
     private reconnectAttempts = 0;
-    private maxReconnectAttempts = 5;
+    private state: StreamState = 'closed';
+    private lastEventId: string | null = null;
+    // Between connect() and disconnect(), even while waiting to reconnect
+    private active = false;
 
     constructor(
         componentId: string,
-        signature: string,
+        signature: string | (() => string),
         options: StreamOptions = {}
     ) {
         this.componentId = componentId;
@@ -23,39 +31,61 @@ export class LiveGoStream {
         this.options = {
             reconnect: true,
             reconnectInterval: 1000,
+            maxReconnectInterval: 30000,
+            maxReconnectAttempts: Infinity,
             ...options,
         };
     }
 
     connect(): void {
-        if (this.eventSource) {
+        if (this.active) {
             return; // Already connected
         }
 
-        const url = `${this.baseUrl}/livego/stream?component_id=${this.componentId}&signature=${this.signature}`;
-        this.eventSource = new EventSource(url);
+        this.active = true;
+        this.addWindowListeners();
+        this.open('connecting');
+    }
+
+    private open(state: StreamState): void {
+        this.setState(state);
+
+        const signature = typeof this.signature === 'function' ? this.signature() : this.signature;
+        let url = `${this.baseUrl}/livego/stream?component_id=${this.componentId}&signature=${signature}`;
+
+        // EventSource cannot set headers, so the resume point goes in the query
+        if (this.lastEventId) {
+            url += `&last_event_id=${encodeURIComponent(this.lastEventId)}`;
+        }
+
+        const source = new EventSource(url);
+        this.eventSource = source;
 
-        this.eventSource.onopen = () => {
+        source.onopen = () => {
             this.reconnectAttempts = 0;
+            this.setState('open');
             this.options.onConnect?.();
         };
 
-        this.eventSource.onerror = (error) => {
+        source.onerror = (error) => {
+            if (this.eventSource !== source) return;
+
             console.error('SSE connection error:', error);
-            this.options.onError?.(new Error('SSE connection error'));
 
-            if (this.options.reconnect && this.reconnectAttempts < this.maxReconnectAttempts) {
-                this.reconnectAttempts++;
-                this.reconnectTimeout = window.setTimeout(() => {
-                    this.disconnect();
-                    this.connect();
-                }, this.options.reconnectInterval! * Math.pow(2, this.reconnectAttempts - 1));
-            } else {
-                this.disconnect();
+            // Close it so the browser does not reconnect on its own, without our backoff
+            const wasOpen = this.state === 'open';
+            source.close();
+            this.eventSource = null;
+
+            this.options.onError?.(new Error('SSE connection error'));
+            if (wasOpen) {
+                this.options.onDisconnect?.();
             }
+
+            this.scheduleReconnect();
         };
 
-        this.eventSource.onmessage = (event) => {
+        source.onmessage = (event) => {
             this.handleMessage(event);
         };
 
@@ -63,20 +93,103 @@ export class LiveGoStream {
         this.setupEventListeners();
     }
 
+    private scheduleReconnect(): void {
+        if (!this.options.reconnect || this.reconnectAttempts >= this.options.maxReconnectAttempts!) {
+            // Still resumed by the online and visibilitychange events
+            this.setState('closed');
+            return;
+        }
+
+        this.setState('reconnecting');
+
+        // Offline: wait for the online event instead of using up attempts
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            return;
+        }
+
+        const delay = Math.min(
+            this.options.maxReconnectInterval!,
+            this.options.reconnectInterval! * Math.pow(2, this.reconnectAttempts)
+        );
+        this.reconnectAttempts++;
+
+        this.reconnectTimeout = setTimeout(() => {
+            this.reconnectTimeout = null;
+            this.open('reconnecting');
+        }, delay);
+    }
+
+    /**
+     * Reconnect right away once the page is back online or visible
+     */
+    private resume = (): void => {
+        if (!this.active || this.eventSource) {
+            return;
+        }
+
+        if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+            return;
+        }
+
+        if (this.reconnectTimeout) {
+            clearTimeout(this.reconnectTimeout);
+            this.reconnectTimeout = null;
+        }
+
+        this.reconnectAttempts = 0;
+        this.open('reconnecting');
+    };
+
+    private addWindowListeners(): void {
+        if (typeof window === 'undefined') return;
+
+        window.addEventListener('online', this.resume);
+        document.addEventListener('visibilitychange', this.resume);
+    }
+
+    private removeWindowListeners(): void {
+        if (typeof window === 'undefined') return;
+
+        window.removeEventListener('online', this.resume);
+        document.removeEventListener('visibilitychange', this.resume);
+    }
+
+    private setState(state: StreamState): void {
+        if (this.state === state) return;
+
+        this.state = state;
+        this.options.onStateChange?.(state);
+    }
+
     private setupEventListeners(): void {
         if (!this.eventSource) return;
 
-        // Standard events (TODO: We should probably let the user define these)
-        const eventTypes = ['connected', 'text-chunk', 'progress', 'notification', 'generation-complete', 'upload-complete'];
+        this.registeredEvents.clear();
+
+        const eventTypes = [...DEFAULT_EVENTS, ...(this.options.events ?? []), ...this.listeners.keys()];
+        eventTypes.forEach((eventType) => this.registerEvent(eventType));
+    }
 
-        eventTypes.forEach((eventType) => {
-            this.eventSource!.addEventListener(eventType, (event: MessageEvent) => {
-                this.handleMessage(event, eventType);
-            });
+    /**
+     * Listen for a named SSE event on the current EventSource, once
+     */
+    private registerEvent(eventType: string): void {
+        // Unnamed messages arrive through onmessage
+        if (!this.eventSource || eventType === 'message' || this.registeredEvents.has(eventType)) {
+            return;
+        }
+
+        this.registeredEvents.add(eventType);
+        this.eventSource.addEventListener(eventType, (event: MessageEvent) => {
+            this.handleMessage(event, eventType);
         });
     }
 
     private handleMessage(event: MessageEvent, eventType?: string): void {
+        if (event.lastEventId) {
+            this.lastEventId = event.lastEventId;
+        }
+
         try {
             const data = JSON.parse(event.data);
             const streamEvent: StreamEvent = {
@@ -98,12 +211,13 @@ export class LiveGoStream {
         }
     }
 
-    on<T = any>(event: string, callback: (data: T) => void): () => void {
+    on<K extends keyof E & string>(event: K, callback: (data: E[K]) => void): () => void {
         if (!this.listeners.has(event)) {
             this.listeners.set(event, new Set());
         }
 
         this.listeners.get(event)!.add(callback);
+        this.registerEvent(event);
 
         // Return unsubscribe function
         return () => {
@@ -117,7 +231,7 @@ export class LiveGoStream {
         };
     }
 
-    off(event: string, callback?: (data: any) => void): void {
+    off<K extends keyof E & string>(event: K, callback?: (data: E[K]) => void): void {
         if (callback) {
             this.listeners.get(event)?.delete(callback);
         } else {
@@ -126,6 +240,9 @@ export class LiveGoStream {
     }
 
     disconnect(): void {
+        this.active = false;
+        this.removeWindowListeners();
+
         if (this.reconnectTimeout) {
             clearTimeout(this.reconnectTimeout);
             this.reconnectTimeout = null;
@@ -137,10 +254,26 @@ export class LiveGoStream {
             this.options.onDisconnect?.();
         }
 
+        this.reconnectAttempts = 0;
+        this.setState('closed');
         this.listeners.clear();
     }
 
+    /**
+     * Current connection state
+     */
+    getState(): StreamState {
+        return this.state;
+    }
+
+    /**
+     * ID of the last event received, sent on reconnect so the server can replay missed events
+     */
+    getLastEventId(): string | null {
+        return this.lastEventId;
+    }
+
     isConnected(): boolean {
-        return this.eventSource !== null && this.eventSource.readyState === EventSource.OPEN;
+        return this.state === 'open';
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,197 @@
+import type { SyncMode, Update } from '../types';
+import { abortable } from './queue';
+import { LiveGoAbortError } from './errors';
+
+interface Waiter {
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+interface PendingInput {
+    value: any;
+    waiters: Waiter[];
+}
+
+export interface DrainedInputs {
+    updates: Update[];
+    settle: (result: Promise<void>) => void;
+}
+
+/**
+ * Buffers syncInput updates per field according to their sync mode.
+ *
+ * Repeated sets of a buffered field collapse to the last value, and every
+ * caller is settled by the request that finally carries it.
+ */
+export class InputSync {
+    private pending = new Map<string, PendingInput>();
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private lastSent = new Map<string, number>();
+    private readonly modes: Record<string, SyncMode>;
+    private readonly defaultMode: SyncMode;
+    private readonly send: (updates: Update[], signal?: AbortSignal) => Promise<void>;
+
+    constructor(
+        send: (updates: Update[], signal?: AbortSignal) => Promise<void>,
+        modes: Record<string, SyncMode> = {},
+        defaultMode: SyncMode = 'immediate'
+    ) {
+        this.send = send;
+        this.modes = { ...modes };
+        this.defaultMode = defaultMode;
+    }
+
+    /**
+     * Get the sync mode used for a field
+     */
+    getMode(field: string): SyncMode {
+        return this.modes[field] ?? this.defaultMode;
+    }
+
+    /**
+     * Change the sync mode used for a field
+     */
+    setMode(field: string, mode: SyncMode): void {
+        this.modes[field] = mode;
+    }
+
+    /**
+     * Sync a field value according to its mode
+     *
+     * Aborting the signal of a buffered value only rejects the returned
+     * promise, since the value may already have been replaced by a later one.
+     */
+    set(field: string, value: any, signal?: AbortSignal): Promise<void> {
+        const mode = this.getMode(field);
+
+        if (mode === 'immediate' && !this.pending.has(field)) {
+            return this.send([syncInput(field, value)], signal);
+        }
+
+        return abortable(new Promise((resolve, reject) => {
+            const entry = this.pending.get(field) ?? { value, waiters: [] };
+            entry.value = value;
+            entry.waiters.push({ resolve, reject });
+            this.pending.set(field, entry);
+
+            this.schedule(field, mode);
+        }), signal);
+    }
+
+    /**
+     * Whether any field values are buffered
+     */
+    hasPending(): boolean {
+        return this.pending.size > 0;
+    }
+
+    /**
+     * Send every buffered field value right away
+     */
+    flush(): Promise<void> {
+        const drained = this.drain();
+        if (drained.updates.length === 0) {
+            return Promise.resolve();
+        }
+
+        const result = this.send(drained.updates);
+        drained.settle(result);
+        return result;
+    }
+
+    /**
+     * Take every buffered field value so it can ride along with another request
+     */
+    drain(): DrainedInputs {
+        const entries = Array.from(this.pending.entries());
+        this.pending.clear();
+        entries.forEach(([field]) => this.clearTimer(field));
+
+        const now = Date.now();
+        entries.forEach(([field]) => this.lastSent.set(field, now));
+
+        return {
+            updates: entries.map(([field, entry]) => syncInput(field, entry.value)),
+            settle: (result) => {
+                const waiters = entries.flatMap(([, entry]) => entry.waiters);
+                result.then(
+                    () => waiters.forEach((waiter) => waiter.resolve()),
+                    (error) => waiters.forEach((waiter) => waiter.reject(error))
+                );
+            },
+        };
+    }
+
+    /**
+     * Cancel every buffered value and its timer, rejecting the callers with
+     * a LiveGoAbortError
+     */
+    dispose(): void {
+        const entries = Array.from(this.pending.values());
+        this.pending.clear();
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+
+        entries.forEach((entry) => entry.waiters.forEach((waiter) => waiter.reject(new LiveGoAbortError())));
+    }
+
+    private schedule(field: string, mode: SyncMode): void {
+        if (mode === 'immediate') {
+            this.flushField(field);
+            return;
+        }
+
+        if (mode === 'lazy') {
+            return;
+        }
+
+        if ('debounce' in mode) {
+            this.clearTimer(field);
+            this.timers.set(field, setTimeout(() => this.flushField(field), mode.debounce));
+            return;
+        }
+
+        if (this.timers.has(field)) {
+            return;
+        }
+
+        const elapsed = Date.now() - (this.lastSent.get(field) ?? 0);
+        if (elapsed >= mode.throttle) {
+            this.flushField(field);
+        } else {
+            this.timers.set(field, setTimeout(() => this.flushField(field), mode.throttle - elapsed));
+        }
+    }
+
+    private flushField(field: string): void {
+        const entry = this.pending.get(field);
+        this.clearTimer(field);
+
+        if (!entry) {
+            return;
+        }
+
+        this.pending.delete(field);
+        this.lastSent.set(field, Date.now());
+
+        this.send([syncInput(field, entry.value)]).then(
+            () => entry.waiters.forEach((waiter) => waiter.resolve()),
+            (error) => entry.waiters.forEach((waiter) => waiter.reject(error))
+        );
+    }
+
+    private clearTimer(field: string): void {
+        const timer = this.timers.get(field);
+        if (timer !== undefined) {
+            clearTimeout(timer);
+            this.timers.delete(field);
+        }
+    }
+}
+
+function syncInput(field: string, value: any): Update {
+    return {
+        type: 'syncInput',
+        payload: { field, value },
+    };
+}
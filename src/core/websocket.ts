@@ -0,0 +1,299 @@
+import type {
+    ErrorResponse,
+    MountRequest,
+    MountResponse,
+    PushMessage,
+    RequestOptions,
+    Transport,
+    UpdateRequest,
+    UpdateResponse,
+} from '../types';
+import {
+    createHttpError,
+    LiveGoAbortError,
+    LiveGoNetworkError,
+    LiveGoTimeoutError,
+    LiveGoTransportClosedError,
+} from './errors';
+
+export interface WebSocketTransportOptions {
+    /** Subprotocols passed to the WebSocket constructor */
+    protocols?: string | string[];
+    /** Per-request timeout in ms, 0 disables it */
+    timeout?: number;
+    /** Delay before the first reconnect in ms, doubled on every attempt */
+    reconnectInterval?: number;
+    /** Upper bound for the reconnect delay in ms */
+    maxReconnectInterval?: number;
+    /** WebSocket implementation, for environments without a global one */
+    WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Messages sent to the server
+ */
+type OutgoingMessage =
+    | { id: string; type: 'mount'; payload: MountRequest }
+    | { id: string; type: 'update'; payload: UpdateRequest }
+    | { type: 'subscribe' | 'unsubscribe'; componentId: string };
+
+/**
+ * Messages received from the server
+ */
+type IncomingMessage =
+    | { id: string; type: 'response'; payload: any }
+    | { id: string; type: 'error'; payload: ErrorResponse }
+    | { type: 'push'; componentId: string; payload: PushMessage };
+
+// WebSocket.OPEN, without relying on a global WebSocket
+const OPEN = 1;
+
+interface PendingRequest {
+    resolve: (value: any) => void;
+    reject: (error: unknown) => void;
+    cleanup: () => void;
+}
+
+/**
+ * Sends mounts and updates over a single multiplexed WebSocket.
+ *
+ * Replies are matched to requests by id, and pushed snapshots are routed to
+ * the components subscribed to them. The socket connects lazily and
+ * reconnects with backoff while any component is subscribed.
+ */
+export class WebSocketTransport implements Transport {
+    private socket: WebSocket | null = null;
+    private nextId = 0;
+    private reconnectAttempts = 0;
+    private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    private closed = false;
+    /** Serialized requests waiting for the socket to open, by request ID */
+    private outbox = new Map<string, string>();
+    private pending = new Map<string, PendingRequest>();
+    private subscribers = new Map<string, Set<(message: PushMessage) => void>>();
+    private readonly url: string;
+    private readonly options: WebSocketTransportOptions;
+
+    constructor(url: string, options: WebSocketTransportOptions = {}) {
+        this.url = url;
+        this.options = {
+            timeout: 0,
+            reconnectInterval: 1000,
+            maxReconnectInterval: 30000,
+            ...options,
+        };
+    }
+
+    async mount(request: MountRequest, options: RequestOptions = {}): Promise<MountResponse> {
+        return this.request('mount', request, options);
+    }
+
+    async update(request: UpdateRequest, options: RequestOptions = {}): Promise<UpdateResponse> {
+        return this.request('update', request, options);
+    }
+
+    subscribe(componentId: string, listener: (message: PushMessage) => void): () => void {
+        if (!this.subscribers.has(componentId)) {
+            this.subscribers.set(componentId, new Set());
+            this.send({ type: 'subscribe', componentId });
+        }
+
+        this.subscribers.get(componentId)!.add(listener);
+
+        return () => {
+            const listeners = this.subscribers.get(componentId);
+            if (!listeners) {
+                return;
+            }
+
+            listeners.delete(listener);
+            if (listeners.size === 0) {
+                this.subscribers.delete(componentId);
+                this.send({ type: 'unsubscribe', componentId });
+            }
+        };
+    }
+
+    /**
+     * Close the socket and reject all pending requests. The transport stays
+     * closed: later requests reject with a LiveGoTransportClosedError.
+     */
+    close(): void {
+        this.closed = true;
+
+        if (this.reconnectTimeout) {
+            clearTimeout(this.reconnectTimeout);
+            this.reconnectTimeout = null;
+        }
+
+        this.socket?.close();
+        this.socket = null;
+        this.outbox.clear();
+        this.rejectPending(new LiveGoTransportClosedError());
+    }
+
+    isConnected(): boolean {
+        return this.socket !== null && this.socket.readyState === OPEN;
+    }
+
+    private request<T>(
+        type: 'mount' | 'update',
+        payload: any,
+        options: RequestOptions
+    ): Promise<T> {
+        const signal = options.signal;
+        const timeout = options.timeout ?? this.options.timeout!;
+
+        if (signal?.aborted) {
+            return Promise.reject(new LiveGoAbortError());
+        }
+
+        if (this.closed) {
+            return Promise.reject(new LiveGoTransportClosedError());
+        }
+
+        const id = String(++this.nextId);
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => fail(new LiveGoAbortError());
+            const timer = timeout > 0
+                ? setTimeout(() => fail(new LiveGoTimeoutError(timeout)), timeout)
+                : undefined;
+
+            const cleanup = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                this.pending.delete(id);
+            };
+
+            const fail = (error: unknown) => {
+                cleanup();
+                // Drop the frame if it is still waiting for the socket, so it is never sent late
+                this.outbox.delete(id);
+                reject(error);
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.pending.set(id, { resolve, reject, cleanup });
+            this.send({ id, type, payload } as OutgoingMessage);
+        });
+    }
+
+    private send(message: OutgoingMessage): void {
+        const data = JSON.stringify(message);
+
+        if (this.isConnected()) {
+            this.socket!.send(data);
+            return;
+        }
+
+        // Subscriptions are replayed on (re)connect, so only requests wait in the outbox
+        if ('id' in message) {
+            this.outbox.set(message.id, data);
+        } else if (message.type === 'unsubscribe') {
+            return;
+        }
+
+        this.connect();
+    }
+
+    private connect(): void {
+        if (this.closed || this.socket || this.reconnectTimeout) {
+            return;
+        }
+
+        const Socket = this.options.WebSocket ?? WebSocket;
+        const socket = new Socket(this.url, this.options.protocols);
+        this.socket = socket;
+
+        socket.onopen = () => {
+            this.reconnectAttempts = 0;
+
+            this.subscribers.forEach((_, componentId) => {
+                socket.send(JSON.stringify({ type: 'subscribe', componentId }));
+            });
+
+            const outbox = Array.from(this.outbox.values());
+            this.outbox.clear();
+            outbox.forEach((data) => socket.send(data));
+        };
+
+        socket.onmessage = (event) => {
+            this.handleMessage(event.data);
+        };
+
+        socket.onclose = () => {
+            if (this.socket !== socket) {
+                return;
+            }
+
+            this.socket = null;
+
+            // Requests that were already sent will never get a reply, and
+            // queued ones are rejected with them so they are never sent late
+            this.outbox.clear();
+            this.rejectPending(new LiveGoNetworkError(new Error('WebSocket connection closed')));
+            this.scheduleReconnect();
+        };
+    }
+
+    private scheduleReconnect(): void {
+        if (this.closed || this.subscribers.size === 0) {
+            return;
+        }
+
+        const delay = Math.min(
+            this.options.maxReconnectInterval!,
+            this.options.reconnectInterval! * Math.pow(2, this.reconnectAttempts)
+        );
+        this.reconnectAttempts++;
+
+        this.reconnectTimeout = setTimeout(() => {
+            this.reconnectTimeout = null;
+            this.connect();
+        }, delay);
+    }
+
+    private handleMessage(data: string): void {
+        let message: IncomingMessage;
+
+        try {
+            message = JSON.parse(data);
+        } catch (error) {
+            console.error('Failed to parse WebSocket message:', error);
+            return;
+        }
+
+        if (message.type === 'push') {
+            this.subscribers.get(message.componentId)?.forEach((listener) => {
+                try {
+                    listener(message.payload);
+                } catch (error) {
+                    console.error('Error in LiveGo push listener:', error);
+                }
+            });
+            return;
+        }
+
+        const request = this.pending.get(message.id);
+        if (!request) {
+            return;
+        }
+
+        request.cleanup();
+
+        if (message.type === 'error') {
+            request.reject(createHttpError(message.payload, message.payload.code));
+        } else {
+            request.resolve(message.payload);
+        }
+    }
+
+    private rejectPending(error: unknown): void {
+        const pending = Array.from(this.pending.values());
+        pending.forEach((request) => {
+            request.cleanup();
+            request.reject(error);
+        });
+    }
+}
@@ -0,0 +1,306 @@
+import { LiveGoComponent } from '../core/component';
+import { toLiveGoError, type LiveGoError } from '../core/errors';
+import { readPath } from '../core/diff';
+import type { Effects, LiveGoOptions } from '../types';
+import { morph } from './morph';
+
+export interface DomBindingOptions extends LiveGoOptions {
+    /** Component to mount, defaults to the root's `lg:component` attribute */
+    component?: string;
+    /** Mount props, defaults to the JSON in the root's `lg:props` attribute */
+    props?: Record<string, any>;
+    /** Called when a directive's request fails */
+    onError?: (error: LiveGoError) => void;
+}
+
+const COMPONENT = 'lg:component';
+const MODEL = 'lg:model';
+const CLICK = 'lg:click';
+const SUBMIT = 'lg:submit';
+const TEXT = 'lg:text';
+const SHOW = 'lg:show';
+const ERROR_EVENT = 'livego:error';
+
+/**
+ * Keeps the `lg:` directives inside a root element in sync with a component.
+ *
+ * - `lg:model="field"` two-way binds an input, select or textarea
+ * - `lg:click="method(args)"` / `lg:submit="method(args)"` call a server method,
+ *   with arguments written as JSON literals
+ * - `lg:text="field"` renders a field as text
+ * - `lg:show="field"` / `lg:show="!field"` hides the element while the field is falsy
+ *
+ * Events are delegated to the root, so directives in HTML morphed in from
+ * `Effects.html` work without rebinding. Failed directive requests dispatch
+ * a `livego:error` event on the root.
+ */
+export class DomBinding {
+    private readonly root: Element;
+    private readonly component: LiveGoComponent;
+    private readonly onError?: (error: LiveGoError) => void;
+    private readonly displays = new WeakMap<HTMLElement, string>();
+    private readonly unsubscribe: () => void;
+
+    constructor(root: Element, component: LiveGoComponent, options: Pick<DomBindingOptions, 'onError'> = {}) {
+        this.root = root;
+        this.component = component;
+        this.onError = options.onError;
+
+        root.addEventListener('click', this.handleClick);
+        root.addEventListener('submit', this.handleSubmit);
+        root.addEventListener('input', this.handleInput);
+        root.addEventListener('change', this.handleInput);
+
+        this.unsubscribe = component.onUpdate((state, effects) => this.update(state, effects));
+        this.render(component.getState());
+    }
+
+    /**
+     * Get the bound component
+     */
+    getComponent(): LiveGoComponent {
+        return this.component;
+    }
+
+    /**
+     * Render every directive from the given state
+     */
+    render(state: Record<string, any>): void {
+        this.elements(TEXT).forEach((element) => {
+            const value = readPath(state, element.getAttribute(TEXT)!);
+            const text = value == null ? '' : String(value);
+            if (element.textContent !== text) {
+                element.textContent = text;
+            }
+        });
+
+        this.elements(SHOW).forEach((element) => {
+            if (!(element instanceof HTMLElement)) return;
+
+            const expression = element.getAttribute(SHOW)!.trim();
+            const negate = expression.startsWith('!');
+            const visible = Boolean(readPath(state, negate ? expression.slice(1) : expression)) !== negate;
+
+            if (!this.displays.has(element)) {
+                this.displays.set(element, element.style.display === 'none' ? '' : element.style.display);
+            }
+            element.style.display = visible ? this.displays.get(element)! : 'none';
+        });
+
+        this.elements(MODEL).forEach((element) => {
+            writeModel(element, readPath(state, element.getAttribute(MODEL)!));
+        });
+    }
+
+    /**
+     * Stop listening for events and updates, and dispose the component
+     */
+    destroy(): void {
+        this.root.removeEventListener('click', this.handleClick);
+        this.root.removeEventListener('submit', this.handleSubmit);
+        this.root.removeEventListener('input', this.handleInput);
+        this.root.removeEventListener('change', this.handleInput);
+        this.unsubscribe();
+        this.component.dispose();
+    }
+
+    private update(state: Record<string, any>, effects: Effects): void {
+        if (effects.html) {
+            morph(this.root, effects.html);
+        }
+
+        this.render(state);
+    }
+
+    private handleClick = (event: Event): void => {
+        const element = this.closest(event.target, CLICK);
+        if (!element) return;
+
+        event.preventDefault();
+        this.invoke(element.getAttribute(CLICK)!);
+    };
+
+    private handleSubmit = (event: Event): void => {
+        const element = this.closest(event.target, SUBMIT);
+        if (!element) return;
+
+        event.preventDefault();
+        this.invoke(element.getAttribute(SUBMIT)!);
+    };
+
+    private handleInput = (event: Event): void => {
+        const element = this.closest(event.target, MODEL);
+        if (!element || element !== event.target) return;
+
+        // Text fields sync on input, checkboxes, radios and selects on change
+        const onChange = element instanceof HTMLSelectElement
+            || (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio'));
+        if ((event.type === 'change') !== onChange) return;
+
+        if (element instanceof HTMLInputElement && element.type === 'radio' && !element.checked) return;
+
+        this.component
+            .set(element.getAttribute(MODEL)!, readModel(element))
+            .catch((error) => this.reportError(error));
+    };
+
+    private invoke(expression: string): void {
+        let call;
+
+        try {
+            call = parseCall(expression);
+        } catch (error) {
+            this.reportError(error);
+            return;
+        }
+
+        this.component.invoke(call.method, call.params).catch((error) => this.reportError(error));
+    }
+
+    /**
+     * Dispatch a bubbling `livego:error` event on the root, with the error as
+     * `detail.error`, and pass the error to `onError`
+     */
+    private reportError(error: unknown): void {
+        const liveGoError = toLiveGoError(error);
+
+        this.root.dispatchEvent(new CustomEvent(ERROR_EVENT, { bubbles: true, detail: { error: liveGoError } }));
+        this.onError?.(liveGoError);
+    }
+
+    /**
+     * Elements with the attribute that belong to this root, not to a nested component
+     */
+    private elements(attribute: string): Element[] {
+        return Array.from(this.root.querySelectorAll(selector(attribute))).filter(
+            (element) => this.owns(element)
+        );
+    }
+
+    private closest(target: EventTarget | null, attribute: string): Element | null {
+        if (!(target instanceof Element)) return null;
+
+        const element = target.closest(selector(attribute));
+        return element && this.root.contains(element) && this.owns(element) ? element : null;
+    }
+
+    private owns(element: Element): boolean {
+        // The root of a nested component belongs to that component
+        if (element !== this.root && element.hasAttribute(COMPONENT)) {
+            return false;
+        }
+
+        const owner = element.parentElement?.closest(selector(COMPONENT));
+        return owner == null || owner === this.root || !this.root.contains(owner);
+    }
+}
+
+/**
+ * Mount the component named by the root (or the options) and bind its directives
+ */
+export async function bind(root: Element, options: DomBindingOptions = {}): Promise<DomBinding> {
+    const { component: name, props, onError, ...componentOptions } = options;
+
+    const componentName = name ?? root.getAttribute(COMPONENT);
+    if (!componentName) {
+        throw new Error(`Cannot bind an element without a ${COMPONENT} attribute`);
+    }
+
+    const propsAttribute = root.getAttribute('lg:props');
+    const component = await LiveGoComponent.mount(
+        componentName,
+        props ?? (propsAttribute ? JSON.parse(propsAttribute) : {}),
+        { handleEffects: true, ...componentOptions, handleHtml: false }
+    );
+
+    return new DomBinding(root, component, { onError });
+}
+
+/**
+ * Bind every element with an `lg:component` attribute, outermost first
+ */
+export async function start(
+    scope: ParentNode = document,
+    options: Omit<DomBindingOptions, 'component' | 'props'> = {}
+): Promise<DomBinding[]> {
+    const roots = Array.from(scope.querySelectorAll(selector(COMPONENT)));
+    return Promise.all(roots.map((root) => bind(root, options)));
+}
+
+function selector(attribute: string): string {
+    return `[${attribute.replace(':', '\\:')}]`;
+}
+
+/**
+ * Parse `method`, `method()` or `method(1, "two")`
+ */
+function parseCall(expression: string): { method: string; params: any[] } {
+    const match = /^\s*([\w$]+)\s*(?:\(([\s\S]*)\))?\s*$/.exec(expression);
+    if (!match) {
+        throw new Error(`Invalid LiveGo call expression: ${expression}`);
+    }
+
+    const args = match[2]?.trim();
+    return {
+        method: match[1],
+        params: args ? JSON.parse(`[${args}]`) : [],
+    };
+}
+
+function readModel(element: Element): any {
+    if (element instanceof HTMLInputElement) {
+        if (element.type === 'checkbox') return element.checked;
+        if (element.type === 'number' || element.type === 'range') {
+            return element.value === '' ? null : element.valueAsNumber;
+        }
+    }
+
+    return (element as HTMLInputElement).value;
+}
+
+function writeModel(element: Element, value: any): void {
+    if (element instanceof HTMLInputElement && element.type === 'checkbox') {
+        element.checked = Boolean(value);
+    } else if (element instanceof HTMLInputElement && element.type === 'radio') {
+        element.checked = element.value === String(value);
+    } else if (
+        element instanceof HTMLInputElement ||
+        element instanceof HTMLSelectElement ||
+        element instanceof HTMLTextAreaElement
+    ) {
+        // Leave the field being typed in alone so the caret does not jump
+        const text = value == null ? '' : String(value);
+        if (element !== document.activeElement && element.value !== text) {
+            element.value = text;
+        }
+    }
+}
+
+export { morph } from './morph';
+export { configure, configureEndpoint, configureCredentials, configureHeaders, configureRetry, configureTimeout, configureInterceptors, configureTransport, configureStorage } from '../core/config';
+export { MemorySnapshotStorage, SessionSnapshotStorage, LocalSnapshotStorage } from '../core/storage';
+export { LiveGoComponent } from '../core/component';
+export { LiveGoStream } from '../core/stream';
+export { onDispatch, dispatch, configureRedirectHandler, configureHtmlHandler } from '../core/effects';
+export {
+    LiveGoError,
+    LiveGoHttpError,
+    LiveGoNetworkError,
+    LiveGoChecksumError,
+    LiveGoValidationError,
+    LiveGoNotMountedError,
+    LiveGoTimeoutError,
+    LiveGoAbortError,
+    LiveGoTransportClosedError,
+} from '../core/errors';
+export type {
+    LiveGoOptions,
+    Effects,
+    Dispatch,
+    DispatchEventMap,
+    EffectSource,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+} from '../types';
@@ -0,0 +1,106 @@
+/**
+ * Morph the children of an element into the given HTML.
+ *
+ * Nodes that match are updated in place, so focus, selection and event
+ * listeners survive. Elements with an `id` are matched by id, everything
+ * else by position and tag name.
+ */
+export function morph(root: Element, html: string): void {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    morphChildren(root, template.content);
+}
+
+function morphChildren(from: Node, to: Node): void {
+    const keyed = new Map<string, ChildNode>();
+    from.childNodes.forEach((node) => {
+        const id = key(node);
+        if (id) {
+            keyed.set(id, node);
+        }
+    });
+
+    let cursor = from.firstChild;
+
+    Array.from(to.childNodes).forEach((toNode) => {
+        const id = key(toNode);
+        let match: ChildNode | null = null;
+
+        if (id) {
+            match = keyed.get(id) ?? null;
+            keyed.delete(id);
+        } else if (cursor && !key(cursor)) {
+            match = cursor;
+        }
+
+        if (match && isSameNode(match, toNode)) {
+            if (match === cursor) {
+                cursor = cursor.nextSibling;
+            } else {
+                from.insertBefore(match, cursor);
+            }
+            morphNode(match, toNode);
+        } else {
+            from.insertBefore(toNode, cursor);
+        }
+    });
+
+    // Whatever was not matched is gone from the new HTML
+    while (cursor) {
+        const next: ChildNode | null = cursor.nextSibling;
+        from.removeChild(cursor);
+        cursor = next;
+    }
+}
+
+function morphNode(from: ChildNode, to: ChildNode): void {
+    if (from.nodeType !== Node.ELEMENT_NODE) {
+        if (from.nodeValue !== to.nodeValue) {
+            from.nodeValue = to.nodeValue;
+        }
+        return;
+    }
+
+    const fromElement = from as Element;
+    const toElement = to as Element;
+
+    Array.from(fromElement.attributes).forEach((attribute) => {
+        if (!toElement.hasAttribute(attribute.name)) {
+            fromElement.removeAttribute(attribute.name);
+        }
+    });
+
+    Array.from(toElement.attributes).forEach((attribute) => {
+        if (fromElement.getAttribute(attribute.name) !== attribute.value) {
+            fromElement.setAttribute(attribute.name, attribute.value);
+        }
+    });
+
+    syncFormState(fromElement, toElement);
+    morphChildren(fromElement, toElement);
+}
+
+/**
+ * Carry over values that live in properties rather than attributes,
+ * leaving the element the user is typing in alone
+ */
+function syncFormState(from: Element, to: Element): void {
+    if (from === document.activeElement) {
+        return;
+    }
+
+    if (from instanceof HTMLInputElement && to instanceof HTMLInputElement && from.type !== 'file') {
+        from.checked = to.hasAttribute('checked');
+        from.value = to.getAttribute('value') ?? '';
+    } else if (from instanceof HTMLTextAreaElement && to instanceof HTMLTextAreaElement) {
+        from.value = to.textContent ?? '';
+    }
+}
+
+function key(node: Node): string | null {
+    return node.nodeType === Node.ELEMENT_NODE ? (node as Element).id || null : null;
+}
+
+function isSameNode(a: Node, b: Node): boolean {
+    return a.nodeType === b.nodeType && a.nodeName === b.nodeName;
+}
@@ -1,6 +1,55 @@
 export { LiveGoComponent } from './core/component';
 export { LiveGoClient } from './core/client';
-export { configureEndpoint, getEndpoint } from './core/config';
+export { LiveGoStream } from './core/stream';
+export { WebSocketTransport } from './core/websocket';
+export type { WebSocketTransportOptions } from './core/websocket';
+export { MockTransport } from './core/mock';
+export { MemorySnapshotStorage, WebSnapshotStorage, SessionSnapshotStorage, LocalSnapshotStorage } from './core/storage';
+export { mountSnapshot, serializeSnapshot } from './core/ssr';
+export { clearMountCache } from './core/cache';
+export { isEqual } from './core/diff';
+export type { MockTransportHandlers, MockTransportCall } from './core/mock';
+export {
+    LiveGoError,
+    LiveGoHttpError,
+    LiveGoNetworkError,
+    LiveGoChecksumError,
+    LiveGoValidationError,
+    LiveGoNotMountedError,
+    LiveGoTimeoutError,
+    LiveGoAbortError,
+    LiveGoChildNotFoundError,
+    LiveGoTransportClosedError,
+} from './core/errors';
+export {
+    configure,
+    configureEndpoint,
+    configureCredentials,
+    configureHeaders,
+    configureRetry,
+    configureTimeout,
+    configureInterceptors,
+    configureTransport,
+    configureStorage,
+    getEndpoint,
+    getCredentials,
+    getHeaders,
+    getRetry,
+    getTimeout,
+    getInterceptors,
+    getTransport,
+    getStorage,
+} from './core/config';
+export {
+    onDispatch,
+    dispatch,
+    processEffects,
+    configureRedirectHandler,
+    configureHtmlHandler,
+    getRedirectHandler,
+    getHtmlHandler,
+} from './core/effects';
+export { getComponent, getComponents } from './core/registry';
 
 export type {
     ErrorResponse,
@@ -10,5 +59,55 @@ export type {
     UpdateResponse,
     MountResponse,
     UpdateCallback,
+    FieldChangeCallback,
     LiveGoOptions,
+    LiveGoClientOptions,
+    RetryPolicy,
+    RequestOptions,
+    OperationOptions,
+    Interceptors,
+    LiveGoRequest,
+    RequestInterceptor,
+    ResponseInterceptor,
+    ResponseInterceptorContext,
+    Transport,
+    SnapshotStorage,
+    PersistOptions,
+    ServerMountOptions,
+    OfflineOptions,
+    OutboxState,
+    OutboxConflict,
+    ConflictResolution,
+    OutboxCallback,
+    MountCacheOptions,
+    HistoryOptions,
+    HistoryCallback,
+    PushMessage,
+    SyncMode,
+    Predictor,
+    ComponentTypes,
+    ComponentType,
+    ComponentName,
+    ResolveComponent,
+    ComponentState,
+    ComponentProps,
+    ActionName,
+    ActionParams,
+    FieldName,
+    BatchOperation,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+    JsonPatchOperation,
+    StatePatchMessage,
+    Dispatch,
+    DispatchEventMap,
+    DispatchParams,
+    DispatchHandler,
+    DispatchOptions,
+    DispatchTarget,
+    EffectSource,
+    RedirectHandler,
+    HtmlHandler,
 } from './types';
\ No newline at end of file
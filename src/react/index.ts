@@ -1,45 +1,126 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, useContext, useSyncExternalStore, createContext, createElement, type ReactNode } from 'react';
 import { LiveGoComponent } from '../core/component';
+import { LiveGoStream } from '../core/stream';
+import { isEqual } from '../core/diff';
+import {
+    LiveGoAbortError,
+    LiveGoChildNotFoundError,
+    LiveGoError,
+    LiveGoNotMountedError,
+    LiveGoValidationError,
+    toLiveGoError,
+} from '../core/errors';
 import type {
+    ActionName,
+    ActionParams,
+    BatchOperation,
+    ComponentName,
+    ComponentProps,
+    ComponentType,
     Effects,
-    ErrorResponse,
     ComponentSnapshot,
-    LiveGoOptions
+    FieldName,
+    LiveGoOptions,
+    OperationOptions,
+    OutboxState,
+    ResolveComponent,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
 } from '../types';
 
 export interface UseLiveGoOptions extends LiveGoOptions {
     autoMount?: boolean;
+    /** Snapshot mounted on the server, hydrated without calling `/mount` */
+    initialSnapshot?: ComponentSnapshot;
 }
 
-export interface UseLiveGoReturn {
-    state: Record<string, any>;
+export interface UseLiveGoReturn<T extends ComponentType = ComponentType> {
+    state: T['state'];
+    /** The mounted instance, or null before mounting */
+    component: LiveGoComponent<T> | null;
     effects: Effects | null;
+    pendingFields: string[];
+    /** Requests waiting in the offline outbox */
+    outboxSize: number;
+    outboxState: OutboxState;
     isMounted: boolean;
     isLoading: boolean;
-    error: ErrorResponse | null;
+    error: LiveGoError | null;
+    errors: Record<string, string>;
     mount: () => Promise<void>;
     remount: () => Promise<void>;
-    call: (method: string, ...params: any[]) => Promise<void>;
-    set: (field: string, value: any) => Promise<void>;
-    batch: (operations: Array<{ type: 'call' | 'set'; [key: string]: any }>) => Promise<void>;
+    call: <M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) => Promise<void>;
+    invoke: <M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) => Promise<void>;
+    set: <F extends FieldName<T>>(field: F, value: T['state'][F], options?: OperationOptions) => Promise<void>;
+    batch: (operations: BatchOperation<T>[], options?: OperationOptions) => Promise<void>;
+    flushInputs: () => Promise<void>;
+    /** Step through the confirmed snapshots (with the `history` option) */
+    undo: (options?: OperationOptions) => Promise<void>;
+    redo: (options?: OperationOptions) => Promise<void>;
+    canUndo: boolean;
+    canRedo: boolean;
+    abort: () => void;
+    isPending: (field: string) => boolean;
     getSnapshot: () => ComponentSnapshot | undefined;
     getId: () => string | undefined;
     getName: () => string | undefined;
 }
 
-export function useLiveGo(
-    componentName: string,
-    props: Record<string, any> = {},
+export interface LiveGoStreamOptions extends Pick<
+    StreamOptions,
+    'endpoint' | 'events' | 'reconnect' | 'reconnectInterval' | 'maxReconnectInterval' | 'maxReconnectAttempts'
+> {
+    autoConnect?: boolean;
+    onTextChunk?: (chunk: string, done: boolean) => void;
+    onProgress?: (current: number, total: number, message: string) => void;
+    onEvent?: (event: StreamEvent) => void;
+}
+
+export interface UseLiveGoStreamReturn<E extends StreamEventMap = StreamEventMap> {
+    stream: LiveGoStream<E> | null;
+    state: StreamState;
+    isConnected: boolean;
+    streamedText: string;
+    progress: StreamEventMap['progress'];
+    events: StreamEvent[];
+    connect: () => void;
+    disconnect: () => void;
+    on: <K extends keyof E & string>(event: K, callback: (data: E[K]) => void) => () => void;
+    clearStreamedText: () => void;
+}
+
+const LiveGoContext = createContext<LiveGoComponent<any> | null>(null);
+const LiveGoSnapshotContext = createContext<Record<string, ComponentSnapshot>>({});
+
+/**
+ * Provide snapshots mounted on the server, keyed by component name, for
+ * `useLiveGo()` below to hydrate from
+ */
+export function LiveGoSnapshotProvider(props: { snapshots: Record<string, ComponentSnapshot>; children?: ReactNode }) {
+    return createElement(LiveGoSnapshotContext.Provider, { value: props.snapshots }, props.children);
+}
+
+export function useLiveGo<N extends ComponentName>(
+    componentName: N,
+    props: ComponentProps<ResolveComponent<N>> = {} as ComponentProps<ResolveComponent<N>>,
     options: UseLiveGoOptions = {}
-): UseLiveGoReturn {
-    const [state, setState] = useState<Record<string, any>>({});
-    const [effects, setEffects] = useState<Effects | null>(null);
-    const [isMounted, setIsMounted] = useState(false);
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<ErrorResponse | null>(null);
+): UseLiveGoReturn<ResolveComponent<N>> {
+    type T = ResolveComponent<N>;
 
-    const livegoRef = useRef<LiveGoComponent | null>(null);
-    const unsubscribeRef = useRef<(() => void) | null>(null);
+    // Render the server's state right away, creating the instance once mounted
+    const provided = useContext(LiveGoSnapshotContext)[componentName];
+    const initialSnapshot = options.initialSnapshot ?? provided;
+    const initialRef = useRef(initialSnapshot ? { componentName, snapshot: initialSnapshot } : null);
+
+    const binding = useComponentBinding<T>(initialRef.current?.snapshot);
+    const { attach, setIsLoading, setError } = binding;
+    const controllerRef = useRef<AbortController | null>(null);
 
     // Stable options reference (only changes if options object changes)
     const optionsRef = useRef(options);
@@ -50,62 +131,287 @@ export function useLiveGo(
      */
     const mount = useCallback(async () => {
         // Cleanup previous instance if exists
-        if (unsubscribeRef.current) {
-            unsubscribeRef.current();
-            unsubscribeRef.current = null;
-        }
+        attach(null);
+
+        // Abort the previous mount and every request of the previous instance
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const signal = controller.signal;
 
         setIsLoading(true);
         setError(null);
-        setIsMounted(false);
 
         try {
             const instance = await LiveGoComponent.mount(
                 componentName,
                 props,
-                optionsRef.current
+                { handleEffects: true, ...optionsRef.current, signal }
             );
-            livegoRef.current = instance;
-
-            // Initialize state
-            setState(instance.getState());
-            setIsMounted(true);
+            if (signal.aborted) {
+                return;
+            }
 
-            // Subscribe to updates
-            unsubscribeRef.current = instance.onUpdate((newState, newEffects) => {
-                setState(newState);
-                setEffects(newEffects);
-            });
+            attach(instance);
         } catch (e) {
-            setError(e as ErrorResponse);
+            if (signal.aborted) {
+                return;
+            }
+
+            setError(toLiveGoError(e));
             throw e;
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) {
+                setIsLoading(false);
+            }
         }
     }, [componentName]); // Only remount if component name changes
 
+    // Hydrate, or auto-mount on component mount if requested
+    useEffect(() => {
+        const initial = initialRef.current;
+
+        if (initial && initial.componentName === componentName) {
+            controllerRef.current?.abort();
+            controllerRef.current = new AbortController();
+            attach(new LiveGoComponent<T>(
+                initial.snapshot,
+                { handleEffects: true, ...optionsRef.current, signal: controllerRef.current.signal }
+            ));
+        } else if (options.autoMount) {
+            mount();
+        }
+
+        // Cleanup on unmount
+        return () => {
+            controllerRef.current?.abort();
+            binding.release();
+        };
+    }, [mount, options.autoMount]);
+
+    return binding.expose(mount);
+}
+
+/**
+ * Bind to a child component listed in the parent's `memo.children`.
+ *
+ * The parent is taken from the nearest `<LiveGoProvider>` or `<LiveGoChild>`,
+ * unless passed explicitly. The child is created from the snapshot the server
+ * embedded in the parent's, follows the parent when it remounts, and is
+ * unmounted when the server stops listing it.
+ */
+export function useLiveGoChild<N extends ComponentName = ComponentName>(
+    id: string,
+    parent?: LiveGoComponent<any> | null
+): UseLiveGoReturn<ResolveComponent<N>> {
+    type T = ResolveComponent<N>;
+
+    const binding = useComponentBinding<T>();
+    const { attach, livegoRef, setError } = binding;
+    const context = useContext(LiveGoContext);
+    const owner = parent === undefined ? context : parent;
+
     /**
-     * Remount with same props
+     * Pick up the child from the parent's latest snapshot
      */
-    const remount = useCallback(() => {
-        return mount();
-    }, [mount]);
+    const resolve = useCallback(async () => {
+        const child = owner?.getChild<T>(id) ?? null;
+
+        if (child !== livegoRef.current) {
+            attach(child);
+        }
+
+        if (owner && !child) {
+            setError(new LiveGoChildNotFoundError(id));
+        } else {
+            setError((current) => (current instanceof LiveGoChildNotFoundError ? null : current));
+        }
+    }, [owner, id]);
+
+    useEffect(() => {
+        resolve();
+        const unsubscribe = owner?.onUpdate(() => resolve());
+
+        // The parent owns the child, so only stop listening
+        return () => {
+            unsubscribe?.();
+            attach(null);
+        };
+    }, [owner, resolve]);
+
+    return binding.expose(resolve);
+}
+
+/**
+ * Make a component the parent for `useLiveGoChild()` and `<LiveGoChild>` below
+ */
+export function LiveGoProvider(props: { component: LiveGoComponent<any> | null; children?: ReactNode }) {
+    return createElement(LiveGoContext.Provider, { value: props.component }, props.children);
+}
+
+/**
+ * Render a child component listed in the parent's `memo.children`, becoming
+ * the parent of any `<LiveGoChild>` rendered inside it
+ */
+export function LiveGoChild<N extends ComponentName = ComponentName>(props: {
+    id: string;
+    parent?: LiveGoComponent<any> | null;
+    children: (child: UseLiveGoReturn<ResolveComponent<N>>) => ReactNode;
+}) {
+    const child = useLiveGoChild<N>(props.id, props.parent);
+    return createElement(LiveGoContext.Provider, { value: child.component }, props.children(child));
+}
+
+/**
+ * Select a slice of a component's state, re-rendering only when the selected
+ * value changes (compared structurally unless `equal` is given).
+ *
+ * The component is taken from the nearest `<LiveGoProvider>` or
+ * `<LiveGoChild>` unless passed explicitly; before it is mounted the hook
+ * returns undefined.
+ */
+export function useLiveGoSelector<S extends Record<string, any> = Record<string, any>, R = unknown>(
+    selector: (state: S) => R,
+    component?: LiveGoComponent<any> | null,
+    equal: (a: R, b: R) => boolean = isEqual
+): R | undefined {
+    const context = useContext(LiveGoContext);
+    const source: LiveGoComponent<any> | null = component === undefined ? context : component;
+    const selection = useRef<{ source: LiveGoComponent<any>; state: S; value: R } | null>(null);
+
+    const subscribe = useCallback(
+        (onChange: () => void) => source?.onUpdate(() => onChange()) ?? (() => {}),
+        [source]
+    );
+
+    /**
+     * Keep returning the previous selection while it is equal, so React bails out
+     */
+    const select = (): R | undefined => {
+        if (!source) {
+            return undefined;
+        }
+
+        const state = source.getState() as S;
+        const last = selection.current;
+        if (last && last.source === source && last.state === state) {
+            return last.value;
+        }
+
+        const value = selector(state);
+        const kept = last && last.source === source && equal(last.value, value) ? last.value : value;
+        selection.current = { source, state, value: kept };
+        return kept;
+    };
+
+    return useSyncExternalStore(subscribe, select, select);
+}
+
+/**
+ * React state and methods for whichever component instance is attached
+ */
+function useComponentBinding<T extends ComponentType>(initialSnapshot?: ComponentSnapshot) {
+    const [state, setState] = useState<T['state']>((initialSnapshot?.state ?? {}) as T['state']);
+    const [component, setComponent] = useState<LiveGoComponent<T> | null>(null);
+    const [effects, setEffects] = useState<Effects | null>(null);
+    const [pendingFields, setPendingFields] = useState<string[]>([]);
+    const [outboxSize, setOutboxSize] = useState(0);
+    const [outboxState, setOutboxState] = useState<OutboxState>('idle');
+    const [canUndo, setCanUndo] = useState(false);
+    const [canRedo, setCanRedo] = useState(false);
+    const [isMounted, setIsMounted] = useState(initialSnapshot !== undefined);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<LiveGoError | null>(null);
+
+    const livegoRef = useRef<LiveGoComponent<T> | null>(null);
+    const unsubscribeRef = useRef<(() => void) | null>(null);
+    const unsubscribeOutboxRef = useRef<(() => void) | null>(null);
+    const unsubscribeHistoryRef = useRef<(() => void) | null>(null);
+
+    /**
+     * Switch to another instance (or none) and subscribe to its updates
+     */
+    const attach = useCallback((instance: LiveGoComponent<T> | null) => {
+        if (unsubscribeRef.current) {
+            unsubscribeRef.current();
+            unsubscribeRef.current = null;
+        }
+        unsubscribeOutboxRef.current?.();
+        unsubscribeOutboxRef.current = null;
+        unsubscribeHistoryRef.current?.();
+        unsubscribeHistoryRef.current = null;
+
+        livegoRef.current = instance;
+        setComponent(instance);
+        setIsMounted(instance !== null);
+        setOutboxSize(instance?.getOutboxSize() ?? 0);
+        setOutboxState(instance?.getOutboxState() ?? 'idle');
+        setCanUndo(instance?.canUndo() ?? false);
+        setCanRedo(instance?.canRedo() ?? false);
+
+        if (!instance) {
+            return;
+        }
+
+        // Initialize state
+        setState(instance.getState());
+        setPendingFields(instance.getPendingFields());
+
+        // Subscribe to updates
+        unsubscribeRef.current = instance.onUpdate((newState, newEffects) => {
+            setState(newState);
+            setEffects(newEffects);
+            setPendingFields(instance.getPendingFields());
+        });
+        unsubscribeOutboxRef.current = instance.onOutboxChange((size, newState) => {
+            setOutboxSize(size);
+            setOutboxState(newState);
+        });
+        unsubscribeHistoryRef.current = instance.onHistoryChange((undoable, redoable) => {
+            setCanUndo(undoable);
+            setCanRedo(redoable);
+        });
+    }, []);
+
+    /**
+     * Stop listening to the attached instance
+     */
+    const release = useCallback(() => {
+        if (unsubscribeRef.current) {
+            unsubscribeRef.current();
+        }
+        unsubscribeOutboxRef.current?.();
+        unsubscribeHistoryRef.current?.();
+    }, []);
 
     /**
      * Call a method on the server component
      */
-    const call = useCallback(async (method: string, ...params: any[]) => {
+    const call = useCallback(async <M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) => {
+        return invoke(method, params);
+    }, []);
+
+    /**
+     * Call a method on the server component with explicit params and options
+     */
+    const invoke = useCallback(async <M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) => {
         if (!livegoRef.current) {
-            const err = new Error('LiveGo component not mounted');
-            setError(err as any);
+            const err = new LiveGoNotMountedError();
+            setError(err);
             throw err;
         }
 
         try {
             setError(null);
-            return await livegoRef.current.call(method, ...params);
+            return await livegoRef.current.invoke(method, params, options);
         } catch (e) {
-            setError(e as ErrorResponse);
+            if (!(e instanceof LiveGoAbortError)) {
+                setError(toLiveGoError(e));
+            }
             throw e;
         }
     }, []);
@@ -113,18 +419,24 @@ export function useLiveGo(
     /**
      * Sync an input field to the server
      */
-    const set = useCallback(async (field: string, value: any) => {
+    const set = useCallback(async <F extends FieldName<T>>(
+        field: F,
+        value: T['state'][F],
+        options?: OperationOptions
+    ) => {
         if (!livegoRef.current) {
-            const err = new Error('LiveGo component not mounted');
-            setError(err as any);
+            const err = new LiveGoNotMountedError();
+            setError(err);
             throw err;
         }
 
         try {
             setError(null);
-            return await livegoRef.current.set(field, value);
+            return await livegoRef.current.set(field, value, options);
         } catch (e) {
-            setError(e as ErrorResponse);
+            if (!(e instanceof LiveGoAbortError)) {
+                setError(toLiveGoError(e));
+            }
             throw e;
         }
     }, []);
@@ -132,22 +444,99 @@ export function useLiveGo(
     /**
      * Batch multiple operations
      */
-    const batch = useCallback(async (operations: Array<{ type: 'call' | 'set'; [key: string]: any }>) => {
+    const batch = useCallback(async (operations: BatchOperation<T>[], options?: OperationOptions) => {
         if (!livegoRef.current) {
-            const err = new Error('LiveGo component not mounted');
-            setError(err as any);
+            const err = new LiveGoNotMountedError();
+            setError(err);
             throw err;
         }
 
         try {
             setError(null);
-            return await livegoRef.current.batch(operations);
+            return await livegoRef.current.batch(operations, options);
         } catch (e) {
-            setError(e as ErrorResponse);
+            if (!(e instanceof LiveGoAbortError)) {
+                setError(toLiveGoError(e));
+            }
             throw e;
         }
     }, []);
 
+    /**
+     * Send buffered inputs right away
+     */
+    const flushInputs = useCallback(async () => {
+        if (!livegoRef.current) {
+            return;
+        }
+
+        try {
+            setError(null);
+            return await livegoRef.current.flushInputs();
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                setError(toLiveGoError(e));
+            }
+            throw e;
+        }
+    }, []);
+
+    /**
+     * Step back to the previous confirmed snapshot
+     */
+    const undo = useCallback(async (options?: OperationOptions) => {
+        if (!livegoRef.current) {
+            const err = new LiveGoNotMountedError();
+            setError(err);
+            throw err;
+        }
+
+        try {
+            setError(null);
+            return await livegoRef.current.undo(options);
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                setError(toLiveGoError(e));
+            }
+            throw e;
+        }
+    }, []);
+
+    /**
+     * Step forward again after undo()
+     */
+    const redo = useCallback(async (options?: OperationOptions) => {
+        if (!livegoRef.current) {
+            const err = new LiveGoNotMountedError();
+            setError(err);
+            throw err;
+        }
+
+        try {
+            setError(null);
+            return await livegoRef.current.redo(options);
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                setError(toLiveGoError(e));
+            }
+            throw e;
+        }
+    }, []);
+
+    /**
+     * Abort pending requests
+     */
+    const abort = useCallback(() => {
+        livegoRef.current?.abort();
+    }, []);
+
+    /**
+     * Whether a field has optimistic changes waiting for the server
+     */
+    const isPending = useCallback((field: string) => {
+        return pendingFields.includes(field);
+    }, [pendingFields]);
+
     /**
      * Get current snapshot
      */
@@ -169,45 +558,211 @@ export function useLiveGo(
         return livegoRef.current?.getName();
     }, []);
 
-    // Auto-mount on component mount if requested
-    useEffect(() => {
-        if (options.autoMount) {
-            mount();
-        }
-
-        // Cleanup on unmount
-        return () => {
-            if (unsubscribeRef.current) {
-                unsubscribeRef.current();
-            }
-            if (livegoRef.current) {
-                livegoRef.current.clearListeners();
-            }
-        };
-    }, [mount, options.autoMount]);
+    const errors = useMemo(() => {
+        return error instanceof LiveGoValidationError ? error.firstErrors() : {};
+    }, [error]);
 
-    return {
+    /**
+     * The public surface, with `mount` (and `remount`) supplied by the caller
+     */
+    const expose = (mount: () => Promise<void>): UseLiveGoReturn<T> => ({
         state,
+        component,
         effects,
+        pendingFields,
+        outboxSize,
+        outboxState,
         isMounted,
         isLoading,
         error,
+        errors,
         mount,
-        remount,
+        remount: mount,
         call,
+        invoke,
         set,
         batch,
+        flushInputs,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        abort,
+        isPending,
         getSnapshot,
         getId,
         getName,
+    });
+
+    return { livegoRef, attach, release, expose, setIsLoading, setError };
+}
+
+/**
+ * Subscribe to the server-sent events of a component.
+ *
+ * The stream is opened in an effect, so Strict Mode double-invocation simply
+ * closes and reopens it. Listeners added with `on()` survive reconnects, and
+ * the stream reconnects when `componentId` or `signature` change.
+ */
+export function useLiveGoStream<E extends StreamEventMap = StreamEventMap>(
+    componentId: string,
+    signature: string,
+    options: LiveGoStreamOptions = {}
+): UseLiveGoStreamReturn<E> {
+    const [stream, setStream] = useState<LiveGoStream<E> | null>(null);
+    const [state, setState] = useState<StreamState>('closed');
+    const [streamedText, setStreamedText] = useState('');
+    const [progress, setProgress] = useState<StreamEventMap['progress']>({ current: 0, total: 0, message: '' });
+    const [events, setEvents] = useState<StreamEvent[]>([]);
+
+    const streamRef = useRef<LiveGoStream<E> | null>(null);
+    const optionsRef = useRef(options);
+    const listenersRef = useRef(new Set<{ event: string; callback: (data: any) => void }>());
+    // Whether the stream should be open, so it comes back after an ID change
+    const wantedRef = useRef(false);
+
+    optionsRef.current = options;
+
+    const close = useCallback(() => {
+        streamRef.current?.disconnect();
+        streamRef.current = null;
+        setStream(null);
+        setState('closed');
+    }, []);
+
+    const connect = useCallback(() => {
+        wantedRef.current = true;
+
+        if (streamRef.current) return;
+
+        const { autoConnect, onTextChunk, onProgress, onEvent, ...streamOptions } = optionsRef.current;
+
+        const instance: LiveGoStream<E> = new LiveGoStream<E>(componentId, signature, {
+            ...streamOptions,
+            onStateChange: (newState) => {
+                if (streamRef.current === instance) {
+                    setState(newState);
+                }
+            },
+            onEvent: (event) => {
+                setEvents((previous) => [...previous, event]);
+                optionsRef.current.onEvent?.(event);
+            },
+        });
+
+        // Handle text chunks
+        instance.on('text-chunk', (data: StreamEventMap['text-chunk']) => {
+            if (!data.done) {
+                setStreamedText((previous) => previous + data.chunk);
+            }
+            optionsRef.current.onTextChunk?.(data.chunk, data.done);
+        });
+
+        // Handle progress
+        instance.on('progress', (data: StreamEventMap['progress']) => {
+            setProgress(data);
+            optionsRef.current.onProgress?.(data.current, data.total, data.message);
+        });
+
+        listenersRef.current.forEach(({ event, callback }) => instance.on(event, callback));
+
+        streamRef.current = instance;
+        setStream(instance);
+        instance.connect();
+    }, [componentId, signature]);
+
+    const disconnect = useCallback(() => {
+        wantedRef.current = false;
+        close();
+    }, [close]);
+
+    const on = useCallback(<K extends keyof E & string>(event: K, callback: (data: E[K]) => void) => {
+        const listener = { event, callback };
+        listenersRef.current.add(listener);
+        streamRef.current?.on(event, callback);
+
+        return () => {
+            listenersRef.current.delete(listener);
+            streamRef.current?.off(event, callback);
+        };
+    }, []);
+
+    const clearStreamedText = useCallback(() => {
+        setStreamedText('');
+    }, []);
+
+    useEffect(() => {
+        if (options.autoConnect || wantedRef.current) {
+            connect();
+        }
+
+        return close;
+    }, [connect, close, options.autoConnect]);
+
+    return {
+        stream,
+        state,
+        isConnected: state === 'open',
+        streamedText,
+        progress,
+        events,
+        connect,
+        disconnect,
+        on,
+        clearStreamedText,
     };
 }
 
-export { configure, configureEndpoint, configureCredentials, configureHeaders } from '../core/config';
+export { configure, configureEndpoint, configureCredentials, configureHeaders, configureRetry, configureTimeout, configureInterceptors, configureTransport, configureStorage } from '../core/config';
+export { MemorySnapshotStorage, SessionSnapshotStorage, LocalSnapshotStorage } from '../core/storage';
+export { mountSnapshot, serializeSnapshot } from '../core/ssr';
+export { isEqual } from '../core/diff';
 export { LiveGoComponent } from '../core/component';
+export { LiveGoStream } from '../core/stream';
+export { onDispatch, dispatch, configureRedirectHandler, configureHtmlHandler } from '../core/effects';
+export {
+    LiveGoError,
+    LiveGoHttpError,
+    LiveGoNetworkError,
+    LiveGoChecksumError,
+    LiveGoValidationError,
+    LiveGoNotMountedError,
+    LiveGoTimeoutError,
+    LiveGoAbortError,
+    LiveGoChildNotFoundError,
+    LiveGoTransportClosedError,
+} from '../core/errors';
 export type {
     ErrorResponse,
     ComponentSnapshot,
     Effects,
-    LiveGoOptions
+    FieldChangeCallback,
+    LiveGoOptions,
+    SyncMode,
+    RetryPolicy,
+    OperationOptions,
+    Interceptors,
+    LiveGoRequest,
+    RequestInterceptor,
+    ResponseInterceptor,
+    Transport,
+    SnapshotStorage,
+    PersistOptions,
+    ServerMountOptions,
+    OfflineOptions,
+    OutboxState,
+    OutboxConflict,
+    ConflictResolution,
+    MountCacheOptions,
+    HistoryOptions,
+    ComponentTypes,
+    ComponentType,
+    BatchOperation,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+    Dispatch,
+    DispatchEventMap,
+    EffectSource,
 } from '../types';
\ No newline at end of file
@@ -0,0 +1,559 @@
+import {
+    createEffect,
+    createMemo,
+    createResource,
+    createSignal,
+    getOwner,
+    on as onChange,
+    onCleanup,
+    onMount,
+    untrack,
+    type Accessor,
+    type Resource,
+} from 'solid-js';
+import { createStore, reconcile } from 'solid-js/store';
+import { LiveGoComponent } from '../core/component';
+import { LiveGoStream } from '../core/stream';
+import {
+    LiveGoAbortError,
+    LiveGoError,
+    LiveGoNotMountedError,
+    LiveGoValidationError,
+    toLiveGoError,
+} from '../core/errors';
+import type {
+    ActionName,
+    ActionParams,
+    BatchOperation,
+    ComponentName,
+    ComponentProps,
+    ComponentSnapshot,
+    ComponentType,
+    Effects,
+    FieldName,
+    LiveGoOptions,
+    OperationOptions,
+    OutboxState,
+    ResolveComponent,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+} from '../types';
+
+export interface UseLiveGoOptions extends LiveGoOptions {
+    autoMount?: boolean;
+    /** Snapshot mounted on the server, hydrated without calling `/mount` */
+    initialSnapshot?: ComponentSnapshot;
+}
+
+export interface LiveGoStreamOptions extends Pick<
+    StreamOptions,
+    'endpoint' | 'events' | 'reconnect' | 'reconnectInterval' | 'maxReconnectInterval' | 'maxReconnectAttempts'
+> {
+    autoConnect?: boolean;
+    onTextChunk?: (chunk: string, done: boolean) => void;
+    onProgress?: (current: number, total: number, message: string) => void;
+    onEvent?: (event: StreamEvent) => void;
+}
+
+export interface UseLiveGoReturn<T extends ComponentType = ComponentType> {
+    /** Fine-grained store, updated in place on every change */
+    state: T['state'];
+    /** The mounted component; reading it throws while the mount has failed */
+    component: Resource<LiveGoComponent<T> | undefined>;
+    effects: Accessor<Effects | null>;
+    pendingFields: Accessor<string[]>;
+    /** Requests waiting in the offline outbox */
+    outboxSize: Accessor<number>;
+    outboxState: Accessor<OutboxState>;
+    isMounted: Accessor<boolean>;
+    isLoading: Accessor<boolean>;
+    error: Accessor<LiveGoError | null>;
+    errors: Accessor<Record<string, string>>;
+    mount: () => Promise<void>;
+    remount: () => Promise<void>;
+    call: <M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) => Promise<void>;
+    invoke: <M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) => Promise<void>;
+    set: <F extends FieldName<T>>(field: F, value: T['state'][F], options?: OperationOptions) => Promise<void>;
+    batch: (operations: BatchOperation<T>[], options?: OperationOptions) => Promise<void>;
+    flushInputs: () => Promise<void>;
+    /** Step through the confirmed snapshots (with the `history` option) */
+    undo: (options?: OperationOptions) => Promise<void>;
+    redo: (options?: OperationOptions) => Promise<void>;
+    canUndo: Accessor<boolean>;
+    canRedo: Accessor<boolean>;
+    abort: () => void;
+    isPending: (field: string) => boolean;
+    getSnapshot: () => ComponentSnapshot | undefined;
+    getId: () => string | undefined;
+    getName: () => string | undefined;
+}
+
+export interface UseLiveGoStreamReturn<E extends StreamEventMap = StreamEventMap> {
+    stream: Accessor<LiveGoStream<E> | null>;
+    state: Accessor<StreamState>;
+    isConnected: Accessor<boolean>;
+    streamedText: Accessor<string>;
+    progress: Accessor<StreamEventMap['progress']>;
+    events: Accessor<StreamEvent[]>;
+    connect: () => void;
+    disconnect: () => void;
+    on: <K extends keyof E & string>(event: K, callback: (data: E[K]) => void) => () => void;
+    clearStreamedText: () => void;
+}
+
+/**
+ * Mount a LiveGo component and expose it as signals, a store and a resource.
+ *
+ * Everything is cleaned up with the owning reactive scope.
+ */
+export function useLiveGo<N extends ComponentName>(
+    componentName: N,
+    props: ComponentProps<ResolveComponent<N>> = {} as ComponentProps<ResolveComponent<N>>,
+    options: UseLiveGoOptions = {}
+): UseLiveGoReturn<ResolveComponent<N>> {
+    type T = ResolveComponent<N>;
+
+    const [state, setState] = createStore<Record<string, any>>({});
+    const [effects, setEffects] = createSignal<Effects | null>(null);
+    const [pendingFields, setPendingFields] = createSignal<string[]>([]);
+    const [outboxSize, setOutboxSize] = createSignal(0);
+    const [outboxState, setOutboxState] = createSignal<OutboxState>('idle');
+    const [canUndo, setCanUndo] = createSignal(false);
+    const [canRedo, setCanRedo] = createSignal(false);
+    const [isMounted, setIsMounted] = createSignal(false);
+    const [error, setError] = createSignal<LiveGoError | null>(null);
+    const errors = createMemo(() => {
+        const current = error();
+        return current instanceof LiveGoValidationError ? current.firstErrors() : {};
+    });
+
+    let livego: LiveGoComponent<T> | null = null;
+    let unsubscribe: (() => void) | null = null;
+    let controller: AbortController | null = null;
+
+    /**
+     * Switch to the given instance and subscribe to its updates
+     */
+    function attach(instance: LiveGoComponent<T>) {
+        livego = instance;
+        setState(reconcile(instance.getState()));
+        setIsMounted(true);
+        setOutboxSize(instance.getOutboxSize());
+        setOutboxState(instance.getOutboxState());
+        setCanUndo(instance.canUndo());
+        setCanRedo(instance.canRedo());
+
+        const unsubscribeUpdates = instance.onUpdate((newState, newEffects) => {
+            setState(reconcile(newState));
+            setEffects(newEffects);
+            setPendingFields(instance.getPendingFields());
+        });
+        const unsubscribeOutbox = instance.onOutboxChange((size, newState) => {
+            setOutboxSize(size);
+            setOutboxState(newState);
+        });
+        const unsubscribeHistory = instance.onHistoryChange((undoable, redoable) => {
+            setCanUndo(undoable);
+            setCanRedo(redoable);
+        });
+
+        unsubscribe = () => {
+            unsubscribeUpdates();
+            unsubscribeOutbox();
+            unsubscribeHistory();
+        };
+    }
+
+    if (options.initialSnapshot && typeof window === 'undefined') {
+        // Render the server's state; the instance is created when hydrating
+        setState(reconcile(options.initialSnapshot.state));
+        setIsMounted(true);
+    } else if (options.initialSnapshot) {
+        controller = new AbortController();
+        attach(new LiveGoComponent<T>(options.initialSnapshot, { handleEffects: true, ...options, signal: controller.signal }));
+    }
+
+    // Every mount() bumps the request, and the resource tracks the latest mount
+    const [mountRequest, setMountRequest] = createSignal(0);
+    let pendingMount: Promise<LiveGoComponent<T> | undefined> = Promise.resolve(livego ?? undefined);
+    const [component] = createResource(mountRequest, () => pendingMount, { initialValue: livego ?? undefined });
+
+    async function mountComponent(signal: AbortSignal) {
+        try {
+            const instance = await LiveGoComponent.mount(componentName, props, { handleEffects: true, ...options, signal });
+            if (signal.aborted) {
+                return undefined;
+            }
+
+            attach(instance);
+            return instance;
+        } catch (e) {
+            if (signal.aborted) {
+                return undefined;
+            }
+
+            setError(toLiveGoError(e));
+            throw e;
+        }
+    }
+
+    /**
+     * Mount the component from server
+     */
+    async function mount() {
+        // Cleanup previous instance if exists
+        if (unsubscribe) {
+            unsubscribe();
+            unsubscribe = null;
+        }
+
+        // Abort the previous mount and every request of the previous instance
+        controller?.abort();
+        controller = new AbortController();
+
+        setError(null);
+        setIsMounted(false);
+
+        const request = mountComponent(controller.signal);
+        pendingMount = request;
+        setMountRequest((count) => count + 1);
+
+        await request;
+    }
+
+    /**
+     * Remount with same props
+     */
+    async function remount() {
+        return mount();
+    }
+
+    /**
+     * Run an operation on the mounted component, recording its error
+     */
+    async function perform(operation: (instance: LiveGoComponent<T>) => Promise<void>) {
+        if (!livego) {
+            const err = new LiveGoNotMountedError();
+            setError(err);
+            throw err;
+        }
+
+        try {
+            setError(null);
+            return await operation(livego);
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                setError(toLiveGoError(e));
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Call a method on the server component
+     */
+    async function call<M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) {
+        return invoke(method, params);
+    }
+
+    /**
+     * Call a method on the server component with explicit params and options
+     */
+    async function invoke<M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) {
+        return perform((instance) => instance.invoke(method, params, options));
+    }
+
+    /**
+     * Sync an input field to the server
+     */
+    async function set<F extends FieldName<T>>(field: F, value: T['state'][F], options?: OperationOptions) {
+        return perform((instance) => instance.set(field, value, options));
+    }
+
+    /**
+     * Batch multiple operations
+     */
+    async function batch(operations: BatchOperation<T>[], options?: OperationOptions) {
+        return perform((instance) => instance.batch(operations, options));
+    }
+
+    /**
+     * Send buffered inputs right away
+     */
+    async function flushInputs() {
+        if (!livego) {
+            return;
+        }
+
+        return perform((instance) => instance.flushInputs());
+    }
+
+    /**
+     * Step back to the previous confirmed snapshot
+     */
+    async function undo(options?: OperationOptions) {
+        return perform((instance) => instance.undo(options));
+    }
+
+    /**
+     * Step forward again after undo()
+     */
+    async function redo(options?: OperationOptions) {
+        return perform((instance) => instance.redo(options));
+    }
+
+    /**
+     * Abort pending requests
+     */
+    function abort() {
+        livego?.abort();
+    }
+
+    /**
+     * Whether a field has optimistic changes waiting for the server
+     */
+    function isPending(field: string) {
+        return pendingFields().includes(field);
+    }
+
+    /**
+     * Get current snapshot
+     */
+    function getSnapshot() {
+        return livego?.getSnapshot();
+    }
+
+    /**
+     * Get component ID
+     */
+    function getId() {
+        return livego?.getId();
+    }
+
+    /**
+     * Get component name
+     */
+    function getName() {
+        return livego?.getName();
+    }
+
+    // Auto-mount if requested
+    if (options.autoMount && !options.initialSnapshot) {
+        mount();
+    }
+
+    // Cleanup with the owning scope
+    if (getOwner()) {
+        onCleanup(() => {
+            controller?.abort();
+            if (unsubscribe) {
+                unsubscribe();
+            }
+        });
+    }
+
+    return {
+        state: state as T['state'],
+        component,
+        effects,
+        pendingFields,
+        outboxSize,
+        outboxState,
+        isMounted,
+        isLoading: () => component.loading,
+        error,
+        errors,
+        mount,
+        remount,
+        call,
+        invoke,
+        set,
+        batch,
+        flushInputs,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        abort,
+        isPending,
+        getSnapshot,
+        getId,
+        getName,
+    };
+}
+
+/**
+ * Subscribe to the server-sent events of a component as signals.
+ *
+ * `componentId` and `signature` may be accessors; the stream reconnects when
+ * they change. Listeners added with `on()` are kept across reconnects.
+ */
+export function useLiveGoStream<E extends StreamEventMap = StreamEventMap>(
+    componentId: string | Accessor<string>,
+    signature: string | Accessor<string>,
+    options: LiveGoStreamOptions = {}
+): UseLiveGoStreamReturn<E> {
+    const [stream, setStream] = createSignal<LiveGoStream<E> | null>(null);
+    const [state, setState] = createSignal<StreamState>('closed');
+    const [streamedText, setStreamedText] = createSignal('');
+    const [progress, setProgress] = createSignal<StreamEventMap['progress']>({ current: 0, total: 0, message: '' });
+    const [events, setEvents] = createSignal<StreamEvent[]>([]);
+
+    const listeners = new Set<{ event: string; callback: (data: any) => void }>();
+    let current: LiveGoStream<E> | null = null;
+
+    const connect = () => {
+        if (current) return;
+
+        const { autoConnect, onTextChunk, onProgress, onEvent, ...streamOptions } = options;
+
+        const instance: LiveGoStream<E> = new LiveGoStream<E>(untrack(() => read(componentId)), untrack(() => read(signature)), {
+            ...streamOptions,
+            onStateChange: (newState) => {
+                if (current === instance) {
+                    setState(newState);
+                }
+            },
+            onEvent: (event) => {
+                setEvents((previous) => [...previous, event]);
+                options.onEvent?.(event);
+            },
+        });
+
+        // Handle text chunks
+        instance.on('text-chunk', (data: StreamEventMap['text-chunk']) => {
+            if (!data.done) {
+                setStreamedText((previous) => previous + data.chunk);
+            }
+            options.onTextChunk?.(data.chunk, data.done);
+        });
+
+        // Handle progress
+        instance.on('progress', (data: StreamEventMap['progress']) => {
+            setProgress(data);
+            options.onProgress?.(data.current, data.total, data.message);
+        });
+
+        listeners.forEach(({ event, callback }) => instance.on(event, callback));
+
+        current = instance;
+        setStream(() => instance);
+        instance.connect();
+    };
+
+    const disconnect = () => {
+        current?.disconnect();
+        current = null;
+        setStream(null);
+        setState('closed');
+    };
+
+    const on = <K extends keyof E & string>(event: K, callback: (data: E[K]) => void) => {
+        const listener = { event, callback };
+        listeners.add(listener);
+        current?.on(event, callback);
+
+        return () => {
+            listeners.delete(listener);
+            current?.off(event, callback);
+        };
+    };
+
+    const clearStreamedText = () => {
+        setStreamedText('');
+    };
+
+    if (getOwner()) {
+        // Reopen the stream for the new component
+        createEffect(onChange([() => read(componentId), () => read(signature)], () => {
+            if (current) {
+                disconnect();
+                connect();
+            }
+        }, { defer: true }));
+
+        if (options.autoConnect) {
+            onMount(connect);
+        }
+
+        onCleanup(disconnect);
+    } else if (options.autoConnect) {
+        connect();
+    }
+
+    return {
+        stream,
+        state,
+        isConnected: () => state() === 'open',
+        streamedText,
+        progress,
+        events,
+        connect,
+        disconnect,
+        on,
+        clearStreamedText,
+    };
+}
+
+function read(value: string | Accessor<string>): string {
+    return typeof value === 'function' ? value() : value;
+}
+
+export { configure, configureEndpoint, configureCredentials, configureHeaders, configureRetry, configureTimeout, configureInterceptors, configureTransport, configureStorage } from '../core/config';
+export { MemorySnapshotStorage, SessionSnapshotStorage, LocalSnapshotStorage } from '../core/storage';
+export { LiveGoComponent } from '../core/component';
+export { LiveGoStream } from '../core/stream';
+export { onDispatch, dispatch, configureRedirectHandler, configureHtmlHandler } from '../core/effects';
+export {
+    LiveGoError,
+    LiveGoHttpError,
+    LiveGoNetworkError,
+    LiveGoChecksumError,
+    LiveGoValidationError,
+    LiveGoNotMountedError,
+    LiveGoTimeoutError,
+    LiveGoAbortError,
+    LiveGoTransportClosedError,
+} from '../core/errors';
+export type {
+    ErrorResponse,
+    ComponentSnapshot,
+    Effects,
+    LiveGoOptions,
+    SyncMode,
+    RetryPolicy,
+    OperationOptions,
+    Interceptors,
+    LiveGoRequest,
+    RequestInterceptor,
+    ResponseInterceptor,
+    Transport,
+    SnapshotStorage,
+    PersistOptions,
+    OfflineOptions,
+    OutboxState,
+    OutboxConflict,
+    ConflictResolution,
+    MountCacheOptions,
+    HistoryOptions,
+    ComponentTypes,
+    ComponentType,
+    BatchOperation,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+    Dispatch,
+    DispatchEventMap,
+    EffectSource,
+} from '../types';
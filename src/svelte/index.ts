@@ -0,0 +1,533 @@
+import { onDestroy } from 'svelte';
+import { derived, writable, type Readable } from 'svelte/store';
+import { LiveGoComponent } from '../core/component';
+import { LiveGoStream } from '../core/stream';
+import {
+    LiveGoAbortError,
+    LiveGoError,
+    LiveGoNotMountedError,
+    LiveGoValidationError,
+    toLiveGoError,
+} from '../core/errors';
+import type {
+    ActionName,
+    ActionParams,
+    BatchOperation,
+    ComponentName,
+    ComponentProps,
+    ComponentSnapshot,
+    ComponentType,
+    Effects,
+    FieldName,
+    LiveGoOptions,
+    OperationOptions,
+    OutboxState,
+    ResolveComponent,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+} from '../types';
+
+export interface UseLiveGoOptions extends LiveGoOptions {
+    autoMount?: boolean;
+    /** Snapshot mounted on the server, hydrated without calling `/mount` */
+    initialSnapshot?: ComponentSnapshot;
+}
+
+export interface LiveGoStreamOptions extends Pick<
+    StreamOptions,
+    'endpoint' | 'events' | 'reconnect' | 'reconnectInterval' | 'maxReconnectInterval' | 'maxReconnectAttempts'
+> {
+    autoConnect?: boolean;
+    onTextChunk?: (chunk: string, done: boolean) => void;
+    onProgress?: (current: number, total: number, message: string) => void;
+    onEvent?: (event: StreamEvent) => void;
+}
+
+export interface UseLiveGoReturn<T extends ComponentType = ComponentType> {
+    state: Readable<T['state']>;
+    effects: Readable<Effects | null>;
+    pendingFields: Readable<string[]>;
+    /** Requests waiting in the offline outbox */
+    outboxSize: Readable<number>;
+    outboxState: Readable<OutboxState>;
+    isMounted: Readable<boolean>;
+    isLoading: Readable<boolean>;
+    error: Readable<LiveGoError | null>;
+    errors: Readable<Record<string, string>>;
+    mount: () => Promise<void>;
+    remount: () => Promise<void>;
+    call: <M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) => Promise<void>;
+    invoke: <M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) => Promise<void>;
+    set: <F extends FieldName<T>>(field: F, value: T['state'][F], options?: OperationOptions) => Promise<void>;
+    batch: (operations: BatchOperation<T>[], options?: OperationOptions) => Promise<void>;
+    flushInputs: () => Promise<void>;
+    /** Step through the confirmed snapshots (with the `history` option) */
+    undo: (options?: OperationOptions) => Promise<void>;
+    redo: (options?: OperationOptions) => Promise<void>;
+    canUndo: Readable<boolean>;
+    canRedo: Readable<boolean>;
+    abort: () => void;
+    isPending: (field: string) => boolean;
+    getSnapshot: () => ComponentSnapshot | undefined;
+    getId: () => string | undefined;
+    getName: () => string | undefined;
+    destroy: () => void;
+}
+
+export interface UseLiveGoStreamReturn<E extends StreamEventMap = StreamEventMap> {
+    stream: Readable<LiveGoStream<E> | null>;
+    state: Readable<StreamState>;
+    isConnected: Readable<boolean>;
+    streamedText: Readable<string>;
+    progress: Readable<StreamEventMap['progress']>;
+    events: Readable<StreamEvent[]>;
+    connect: () => void;
+    disconnect: () => void;
+    on: <K extends keyof E & string>(event: K, callback: (data: E[K]) => void) => () => void;
+    clearStreamedText: () => void;
+}
+
+/**
+ * Mount a LiveGo component and expose it as Svelte stores.
+ *
+ * Called during component initialization, everything is cleaned up when the
+ * component is destroyed; elsewhere, call `destroy()` when done.
+ */
+export function useLiveGo<N extends ComponentName>(
+    componentName: N,
+    props: ComponentProps<ResolveComponent<N>> = {} as ComponentProps<ResolveComponent<N>>,
+    options: UseLiveGoOptions = {}
+): UseLiveGoReturn<ResolveComponent<N>> {
+    type T = ResolveComponent<N>;
+
+    const state = writable<T['state']>({} as T['state']);
+    const effects = writable<Effects | null>(null);
+    const pendingFields = writable<string[]>([]);
+    const outboxSize = writable(0);
+    const outboxState = writable<OutboxState>('idle');
+    const canUndo = writable(false);
+    const canRedo = writable(false);
+    const isMounted = writable(false);
+    const isLoading = writable(false);
+    const error = writable<LiveGoError | null>(null);
+    const errors = derived(error, ($error) =>
+        $error instanceof LiveGoValidationError ? $error.firstErrors() : {}
+    );
+
+    let livego: LiveGoComponent<T> | null = null;
+    let unsubscribe: (() => void) | null = null;
+    let controller: AbortController | null = null;
+    let currentPendingFields: string[] = [];
+
+    /**
+     * Switch to the given instance and subscribe to its updates
+     */
+    function attach(instance: LiveGoComponent<T>) {
+        livego = instance;
+        state.set(instance.getState());
+        isMounted.set(true);
+        outboxSize.set(instance.getOutboxSize());
+        outboxState.set(instance.getOutboxState());
+        canUndo.set(instance.canUndo());
+        canRedo.set(instance.canRedo());
+
+        const unsubscribeUpdates = instance.onUpdate((newState, newEffects) => {
+            state.set(newState);
+            effects.set(newEffects);
+            currentPendingFields = instance.getPendingFields();
+            pendingFields.set(currentPendingFields);
+        });
+        const unsubscribeOutbox = instance.onOutboxChange((size, newState) => {
+            outboxSize.set(size);
+            outboxState.set(newState);
+        });
+        const unsubscribeHistory = instance.onHistoryChange((undoable, redoable) => {
+            canUndo.set(undoable);
+            canRedo.set(redoable);
+        });
+
+        unsubscribe = () => {
+            unsubscribeUpdates();
+            unsubscribeOutbox();
+            unsubscribeHistory();
+        };
+    }
+
+    /**
+     * Mount the component from server
+     */
+    async function mount() {
+        // Cleanup previous instance if exists
+        if (unsubscribe) {
+            unsubscribe();
+            unsubscribe = null;
+        }
+
+        // Abort the previous mount and every request of the previous instance
+        controller?.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+
+        isLoading.set(true);
+        error.set(null);
+        isMounted.set(false);
+
+        try {
+            const instance = await LiveGoComponent.mount(componentName, props, { handleEffects: true, ...options, signal });
+            if (signal.aborted) {
+                return;
+            }
+
+            attach(instance);
+        } catch (e) {
+            if (signal.aborted) {
+                return;
+            }
+
+            error.set(toLiveGoError(e));
+            throw e;
+        } finally {
+            if (!signal.aborted) {
+                isLoading.set(false);
+            }
+        }
+    }
+
+    /**
+     * Remount with same props
+     */
+    async function remount() {
+        return mount();
+    }
+
+    /**
+     * Run an operation on the mounted component, recording its error
+     */
+    async function perform(operation: (instance: LiveGoComponent<T>) => Promise<void>) {
+        if (!livego) {
+            const err = new LiveGoNotMountedError();
+            error.set(err);
+            throw err;
+        }
+
+        try {
+            error.set(null);
+            return await operation(livego);
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                error.set(toLiveGoError(e));
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Call a method on the server component
+     */
+    async function call<M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) {
+        return invoke(method, params);
+    }
+
+    /**
+     * Call a method on the server component with explicit params and options
+     */
+    async function invoke<M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) {
+        return perform((instance) => instance.invoke(method, params, options));
+    }
+
+    /**
+     * Sync an input field to the server
+     */
+    async function set<F extends FieldName<T>>(field: F, value: T['state'][F], options?: OperationOptions) {
+        return perform((instance) => instance.set(field, value, options));
+    }
+
+    /**
+     * Batch multiple operations
+     */
+    async function batch(operations: BatchOperation<T>[], options?: OperationOptions) {
+        return perform((instance) => instance.batch(operations, options));
+    }
+
+    /**
+     * Send buffered inputs right away
+     */
+    async function flushInputs() {
+        if (!livego) {
+            return;
+        }
+
+        return perform((instance) => instance.flushInputs());
+    }
+
+    /**
+     * Step back to the previous confirmed snapshot
+     */
+    async function undo(options?: OperationOptions) {
+        return perform((instance) => instance.undo(options));
+    }
+
+    /**
+     * Step forward again after undo()
+     */
+    async function redo(options?: OperationOptions) {
+        return perform((instance) => instance.redo(options));
+    }
+
+    /**
+     * Abort pending requests
+     */
+    function abort() {
+        livego?.abort();
+    }
+
+    /**
+     * Whether a field has optimistic changes waiting for the server
+     */
+    function isPending(field: string) {
+        return currentPendingFields.includes(field);
+    }
+
+    /**
+     * Get current snapshot
+     */
+    function getSnapshot() {
+        return livego?.getSnapshot();
+    }
+
+    /**
+     * Get component ID
+     */
+    function getId() {
+        return livego?.getId();
+    }
+
+    /**
+     * Get component name
+     */
+    function getName() {
+        return livego?.getName();
+    }
+
+    /**
+     * Abort requests and stop listening for updates
+     */
+    function destroy() {
+        controller?.abort();
+        if (unsubscribe) {
+            unsubscribe();
+            unsubscribe = null;
+        }
+    }
+
+    if (options.initialSnapshot && typeof window === 'undefined') {
+        // Render the server's state; the instance is created when hydrating
+        state.set(options.initialSnapshot.state);
+        isMounted.set(true);
+    } else if (options.initialSnapshot) {
+        controller = new AbortController();
+        attach(new LiveGoComponent<T>(options.initialSnapshot, { handleEffects: true, ...options, signal: controller.signal }));
+    } else if (options.autoMount) {
+        // Auto-mount if requested
+        mount();
+    }
+
+    onComponentDestroy(destroy);
+
+    return {
+        state: { subscribe: state.subscribe },
+        effects: { subscribe: effects.subscribe },
+        pendingFields: { subscribe: pendingFields.subscribe },
+        outboxSize: { subscribe: outboxSize.subscribe },
+        outboxState: { subscribe: outboxState.subscribe },
+        isMounted: { subscribe: isMounted.subscribe },
+        isLoading: { subscribe: isLoading.subscribe },
+        error: { subscribe: error.subscribe },
+        errors,
+        mount,
+        remount,
+        call,
+        invoke,
+        set,
+        batch,
+        flushInputs,
+        undo,
+        redo,
+        canUndo: { subscribe: canUndo.subscribe },
+        canRedo: { subscribe: canRedo.subscribe },
+        abort,
+        isPending,
+        getSnapshot,
+        getId,
+        getName,
+        destroy,
+    };
+}
+
+/**
+ * Subscribe to the server-sent events of a component as Svelte stores.
+ *
+ * Listeners added with `on()` are kept when the stream is reconnected.
+ */
+export function useLiveGoStream<E extends StreamEventMap = StreamEventMap>(
+    componentId: string,
+    signature: string,
+    options: LiveGoStreamOptions = {}
+): UseLiveGoStreamReturn<E> {
+    const stream = writable<LiveGoStream<E> | null>(null);
+    const state = writable<StreamState>('closed');
+    const streamedText = writable('');
+    const progress = writable<StreamEventMap['progress']>({ current: 0, total: 0, message: '' });
+    const events = writable<StreamEvent[]>([]);
+
+    const listeners = new Set<{ event: string; callback: (data: any) => void }>();
+    let current: LiveGoStream<E> | null = null;
+
+    const connect = () => {
+        if (current) return;
+
+        const { autoConnect, onTextChunk, onProgress, onEvent, ...streamOptions } = options;
+
+        const instance = new LiveGoStream<E>(componentId, signature, {
+            ...streamOptions,
+            onStateChange: (newState) => {
+                state.set(newState);
+            },
+            onEvent: (event) => {
+                events.update((previous) => [...previous, event]);
+                options.onEvent?.(event);
+            },
+        });
+
+        // Handle text chunks
+        instance.on('text-chunk', (data: StreamEventMap['text-chunk']) => {
+            if (!data.done) {
+                streamedText.update((previous) => previous + data.chunk);
+            }
+            options.onTextChunk?.(data.chunk, data.done);
+        });
+
+        // Handle progress
+        instance.on('progress', (data: StreamEventMap['progress']) => {
+            progress.set(data);
+            options.onProgress?.(data.current, data.total, data.message);
+        });
+
+        listeners.forEach(({ event, callback }) => instance.on(event, callback));
+
+        current = instance;
+        stream.set(instance);
+        instance.connect();
+    };
+
+    const disconnect = () => {
+        current?.disconnect();
+        current = null;
+        stream.set(null);
+        state.set('closed');
+    };
+
+    const on = <K extends keyof E & string>(event: K, callback: (data: E[K]) => void) => {
+        const listener = { event, callback };
+        listeners.add(listener);
+        current?.on(event, callback);
+
+        return () => {
+            listeners.delete(listener);
+            current?.off(event, callback);
+        };
+    };
+
+    const clearStreamedText = () => {
+        streamedText.set('');
+    };
+
+    if (options.autoConnect) {
+        connect();
+    }
+
+    onComponentDestroy(disconnect);
+
+    return {
+        stream: { subscribe: stream.subscribe },
+        state: { subscribe: state.subscribe },
+        isConnected: derived(state, ($state) => $state === 'open'),
+        streamedText: { subscribe: streamedText.subscribe },
+        progress: { subscribe: progress.subscribe },
+        events: { subscribe: events.subscribe },
+        connect,
+        disconnect,
+        on,
+        clearStreamedText,
+    };
+}
+
+/**
+ * Run cleanup when the calling Svelte component is destroyed, if there is one
+ */
+function onComponentDestroy(cleanup: () => void): void {
+    try {
+        onDestroy(cleanup);
+    } catch {
+        // Not called during component initialization; cleanup is up to the caller
+    }
+}
+
+export { configure, configureEndpoint, configureCredentials, configureHeaders, configureRetry, configureTimeout, configureInterceptors, configureTransport, configureStorage } from '../core/config';
+export { MemorySnapshotStorage, SessionSnapshotStorage, LocalSnapshotStorage } from '../core/storage';
+export { LiveGoComponent } from '../core/component';
+export { LiveGoStream } from '../core/stream';
+export { onDispatch, dispatch, configureRedirectHandler, configureHtmlHandler } from '../core/effects';
+export {
+    LiveGoError,
+    LiveGoHttpError,
+    LiveGoNetworkError,
+    LiveGoChecksumError,
+    LiveGoValidationError,
+    LiveGoNotMountedError,
+    LiveGoTimeoutError,
+    LiveGoAbortError,
+    LiveGoTransportClosedError,
+} from '../core/errors';
+export type {
+    ErrorResponse,
+    ComponentSnapshot,
+    Effects,
+    LiveGoOptions,
+    SyncMode,
+    RetryPolicy,
+    OperationOptions,
+    Interceptors,
+    LiveGoRequest,
+    RequestInterceptor,
+    ResponseInterceptor,
+    Transport,
+    SnapshotStorage,
+    PersistOptions,
+    OfflineOptions,
+    OutboxState,
+    OutboxConflict,
+    ConflictResolution,
+    MountCacheOptions,
+    HistoryOptions,
+    ComponentTypes,
+    ComponentType,
+    BatchOperation,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+    Dispatch,
+    DispatchEventMap,
+    EffectSource,
+} from '../types';
@@ -9,6 +9,8 @@ export interface ComponentSnapshot {
     state: Record<string, any>;
     memo: ComponentMemo;
     checksum: string;
+    /** Snapshots of the components in `memo.children`, keyed by ID */
+    children?: Record<string, ComponentSnapshot>;
 }
 
 export interface ComponentMemo {
@@ -18,15 +20,37 @@ export interface ComponentMemo {
     method: string;
     children: string[];
     data: Record<string, any>;
+    idempotencyKey?: string;
 }
 
 export interface Effects {
     dirty: string[];
-    dispatches: Record<string, any>[];
+    dispatches: Dispatch[];
     redirects: string | null;
     html: string | null;
 }
 
+export interface Dispatch {
+    name: string;
+    params?: any;
+    /** Limits which components' `listen` handlers receive the event */
+    target?: DispatchTarget;
+    [key: string]: any;
+}
+
+/**
+ * Components an event is delivered to. All given conditions must match;
+ * without a target, every listening component receives it.
+ */
+export interface DispatchTarget {
+    /** Components with this name */
+    name?: string;
+    /** The component with this `memo.id` */
+    id?: string;
+    /** Components related to the dispatching one through `memo.children` */
+    relation?: 'self' | 'ancestors' | 'descendants';
+}
+
 export interface UpdateResponse {
     snapshot: ComponentSnapshot;
     effects: Effects;
@@ -56,12 +80,297 @@ export interface Update {
     };
 }
 
-export type UpdateCallback = (state: any, effects: Effects) => void;
+/**
+ * Receives the new state, the effects that came with it, and the top-level
+ * keys whose values changed since the previous call
+ */
+export type UpdateCallback<S = any> = (state: S, effects: Effects, changed: string[]) => void;
+
+export type FieldChangeCallback<V = any> = (value: V, previous: V) => void;
+
+/**
+ * Payload types of dispatched events, keyed by event name.
+ * Augment it to type `onDispatch` handlers.
+ */
+export interface DispatchEventMap {}
+
+export type DispatchParams<K extends string> = K extends keyof DispatchEventMap ? DispatchEventMap[K] : any;
+
+/**
+ * The component whose response carried the effects
+ */
+export interface EffectSource {
+    componentId: string;
+    componentName: string;
+}
+
+export type DispatchHandler<K extends string = string> = (
+    params: DispatchParams<K>,
+    source: EffectSource | null
+) => void;
+
+export interface DispatchOptions {
+    target?: DispatchTarget;
+    /** The dispatching component, required for `target.relation` */
+    source?: EffectSource | null;
+}
+
+export type RedirectHandler = (url: string) => void;
+
+export type HtmlHandler = (html: string, source: EffectSource) => void;
+
+/**
+ * How `set()` sends a field to the server:
+ * - `immediate`: on every call
+ * - `lazy`: buffered until the next `call()`/`batch()`
+ * - `{ debounce: ms }`: after the field has been quiet for `ms`
+ * - `{ throttle: ms }`: at most once every `ms`
+ */
+export type SyncMode =
+    | 'immediate'
+    | 'lazy'
+    | { debounce: number }
+    | { throttle: number };
+
+/**
+ * Predicts the state changes a server method will make, given the current
+ * state and the call parameters
+ */
+export type Predictor<S = Record<string, any>, P extends any[] = any[]> = (
+    state: S,
+    ...params: P
+) => Partial<S>;
+
+/**
+ * When failed mount and update requests are attempted again
+ */
+export interface RetryPolicy {
+    /** Maximum number of attempts, including the first one; 1 (no retries) by default */
+    attempts?: number;
+    /** Delay before the first retry in ms, doubled on every retry */
+    baseDelay?: number;
+    /** Upper bound for the backoff delay in ms */
+    maxDelay?: number;
+    /** Randomize delays so clients don't retry in lockstep */
+    jitter?: boolean;
+    /** HTTP status codes worth retrying */
+    retryOn?: number[];
+    /** Retry when the request fails before a response arrives */
+    retryNetworkErrors?: boolean;
+    /** Retry updates containing callMethod even without an idempotency key */
+    retryCalls?: boolean;
+}
+
+/**
+ * A request about to be sent, as seen by request interceptors
+ */
+export interface LiveGoRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body: any;
+}
+
+export interface ResponseInterceptorContext {
+    request: LiveGoRequest;
+    /** Run the request interceptors and send the request again */
+    replay: () => Promise<Response>;
+}
+
+/**
+ * Mutates or replaces a request before it is sent
+ */
+export type RequestInterceptor = (
+    request: LiveGoRequest
+) => LiveGoRequest | void | Promise<LiveGoRequest | void>;
+
+/**
+ * Inspects, transforms or replays a response before it is handled
+ */
+export type ResponseInterceptor = (
+    response: Response,
+    context: ResponseInterceptorContext
+) => Response | void | Promise<Response | void>;
+
+export interface Interceptors {
+    request?: RequestInterceptor[];
+    response?: ResponseInterceptor[];
+}
+
+/**
+ * A snapshot pushed by the server without a request from this client
+ */
+export interface PushMessage {
+    snapshot: ComponentSnapshot;
+    effects?: Effects;
+}
+
+/**
+ * A single RFC 6902 JSON Patch operation
+ */
+export type JsonPatchOperation =
+    | { op: 'add' | 'replace' | 'test'; path: string; value: any }
+    | { op: 'remove'; path: string }
+    | { op: 'move' | 'copy'; from: string; path: string };
+
+/**
+ * Payload of the `state-patch` stream event
+ */
+export interface StatePatchMessage {
+    patch: JsonPatchOperation[];
+    /** Checksum of the patched snapshot */
+    checksum: string;
+    /** Checksum of the snapshot the patch was computed against; patches for any other snapshot are ignored */
+    previousChecksum: string;
+    effects?: Effects;
+}
+
+/**
+ * Carries mount and update requests to the server.
+ *
+ * Transports that can receive server pushes implement `subscribe`.
+ */
+export interface Transport {
+    mount(request: MountRequest, options?: RequestOptions): Promise<MountResponse>;
+    update(request: UpdateRequest, options?: RequestOptions): Promise<UpdateResponse>;
+    subscribe?(componentId: string, listener: (message: PushMessage) => void): () => void;
+}
+
+/**
+ * Keeps persisted snapshots (and offline outboxes) by key. Methods may return promises.
+ */
+export interface SnapshotStorage<V = ComponentSnapshot> {
+    get(key: string): V | null | Promise<V | null>;
+    set(key: string, value: V): void | Promise<void>;
+    remove(key: string): void | Promise<void>;
+}
+
+export interface PersistOptions {
+    key: string;
+    /** Defaults to the configured storage (`sessionStorage` unless changed) */
+    storage?: SnapshotStorage<any>;
+}
+
+/**
+ * - `idle`: nothing is queued
+ * - `waiting`: updates are queued until the connection returns
+ * - `replaying`: queued updates are being sent
+ */
+export type OutboxState = 'idle' | 'waiting' | 'replaying';
+
+/**
+ * Queued updates the server rejected because their snapshot's checksum no longer matches
+ */
+export interface OutboxConflict {
+    error: ErrorResponse;
+    updates: Update[];
+    /** The snapshot the updates were sent with */
+    snapshot: ComponentSnapshot;
+}
+
+/**
+ * What to do with conflicting updates: drop them, leave them queued until
+ * the next replay, or send the given updates in their place
+ */
+export type ConflictResolution = 'discard' | 'keep' | Update[];
+
+export interface OfflineOptions {
+    /** Decides what happens to updates rejected with a checksum error, defaults to discarding them */
+    onConflict?: (conflict: OutboxConflict) => ConflictResolution | Promise<ConflictResolution>;
+    /** Called when the server rejects queued updates for any other reason */
+    onError?: (error: ErrorResponse, updates: Update[]) => void;
+}
+
+export type OutboxCallback = (size: number, state: OutboxState) => void;
+
+/**
+ * Options for mounting a component outside the browser, e.g. during SSR
+ */
+export interface ServerMountOptions extends Pick<LiveGoOptions, 'headers' | 'retry' | 'timeout' | 'interceptors' | 'transport' | 'signal'> {
+    /** Absolute URL of the API, defaults to the configured endpoint */
+    endpoint?: string;
+    /** `Cookie` header of the incoming request, forwarded so the API sees the user's session */
+    cookie?: string;
+}
+
+/**
+ * Sharing of mounts with the same component name and props
+ */
+export interface MountCacheOptions {
+    /** How long a mounted snapshot is reused, in ms. Defaults to 0: only mounts in flight are shared */
+    ttl?: number;
+    /** Give all such mounts one live component, disposed once every holder's `signal` has aborted */
+    shared?: boolean;
+}
+
+export interface HistoryOptions {
+    /** Maximum number of snapshots kept, including the current one. Defaults to 50 */
+    limit?: number;
+    /**
+     * Server method called with the whole state to step to, instead of
+     * syncing the changed fields one by one
+     */
+    restoreMethod?: string;
+}
+
+export type HistoryCallback = (canUndo: boolean, canRedo: boolean) => void;
+
+export interface LiveGoClientOptions {
+    retry?: RetryPolicy;
+    interceptors?: Interceptors;
+    /** Per-attempt timeout in ms, 0 disables it */
+    timeout?: number;
+}
+
+/**
+ * Options for a single call, set or batch
+ */
+export interface OperationOptions {
+    /** Drops the operation if it has not been sent yet, and rejects its promise */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for a single request
+ */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    /** Per-attempt timeout in ms, overriding the configured one */
+    timeout?: number;
+}
 
 export interface LiveGoOptions {
     endpoint?: string;
     credentials?: RequestCredentials;
     headers?: Record<string, string>;
+    retry?: RetryPolicy;
+    timeout?: number;
+    /** Run after the globally configured interceptors */
+    interceptors?: Interceptors;
+    /** Replaces the HTTP client built from endpoint, credentials and headers */
+    transport?: Transport;
+    /** Aborts the mount and every pending request of the component */
+    signal?: AbortSignal;
+    sync?: Record<string, SyncMode>;
+    defaultSync?: SyncMode;
+    optimistic?: boolean;
+    predictors?: Record<string, Predictor>;
+    /** Run the registered redirect, dispatch and html handlers for effects */
+    handleEffects?: boolean;
+    /** Pass html effects to the global html handler when handling effects (default true) */
+    handleHtml?: boolean;
+    /** Server methods or handlers to run when an event is dispatched, keyed by event name */
+    listen?: Record<string, string | DispatchHandler>;
+    /** Attach a server-sent event stream that updates state (see `attachStream`) */
+    stream?: boolean | StreamOptions;
+    /** Save every confirmed snapshot under this key and restore from it on mount */
+    persist?: string | PersistOptions;
+    /** Queue updates while the network is down and replay them on reconnect (persisted with `persist`) */
+    offline?: boolean | OfflineOptions;
+    /** Deduplicate mounts with the same name and props, optionally sharing the snapshot or the component */
+    cache?: boolean | MountCacheOptions;
+    /** Keep the confirmed snapshots for `undo()` and `redo()` */
+    history?: boolean | HistoryOptions;
 }
 
 export interface StreamEvent<T = any> {
@@ -70,21 +379,90 @@ export interface StreamEvent<T = any> {
     id?: string;
 }
 
+/**
+ * Payload types of named stream events, keyed by event name.
+ * Events not listed here carry `any`.
+ */
+export interface StreamEventMap {
+    [event: string]: any;
+    'text-chunk': { chunk: string; done: boolean };
+    progress: { current: number; total: number; message: string };
+    snapshot: PushMessage;
+    'state-patch': StatePatchMessage;
+    effects: Effects;
+}
+
 export interface StreamOptions {
     endpoint?: string;
+    /** Named events to listen for from the start, in addition to the built-in ones */
+    events?: string[];
     onEvent?: (event: StreamEvent) => void;
     onError?: (error: Error) => void;
     onConnect?: () => void;
     onDisconnect?: () => void;
+    onStateChange?: (state: StreamState) => void;
     reconnect?: boolean;
+    /** Delay before the first reconnect in ms, doubled on every attempt */
     reconnectInterval?: number;
+    /** Upper bound for the reconnect delay in ms */
+    maxReconnectInterval?: number;
+    /** Reconnect attempts before giving up, unlimited by default */
+    maxReconnectAttempts?: number;
 }
 
-export type ComponentTypes = {
-    [key: string]: ComponentType;
-}
+export type StreamState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * Registry of server components, keyed by component name.
+ *
+ * Applications augment it to get typed components:
+ *
+ * declare module 'livego' {
+ *     interface ComponentTypes {
+ *         Counter: {
+ *             state: { count: number };
+ *             actions: { increment: () => Promise<void> };
+ *         };
+ *     }
+ * }
+ */
+export interface ComponentTypes {}
 
 export type ComponentType = {
     state: Record<string, any>;
     actions: Record<string, (...args: any[]) => Promise<any>>;
-}
\ No newline at end of file
+    props?: Record<string, any>;
+}
+
+/**
+ * Names accepted by `mount()`: any string until the registry is augmented
+ */
+export type ComponentName = [keyof ComponentTypes] extends [never]
+    ? string
+    : Extract<keyof ComponentTypes, string>;
+
+export type ResolveComponent<N extends string> = N extends keyof ComponentTypes
+    ? ComponentTypes[N] extends ComponentType
+        ? ComponentTypes[N]
+        : ComponentType
+    : ComponentType;
+
+export type ComponentState<T extends ComponentType> = T['state'];
+
+export type ComponentProps<T extends ComponentType> = T extends { props: infer P }
+    ? P
+    : Record<string, any>;
+
+export type ActionName<T extends ComponentType> = Extract<keyof T['actions'], string>;
+
+export type ActionParams<T extends ComponentType, M extends ActionName<T>> = Parameters<T['actions'][M]>;
+
+export type FieldName<T extends ComponentType> = Extract<keyof T['state'], string>;
+
+export type BatchOperation<T extends ComponentType = ComponentType> =
+    | {
+          [M in ActionName<T>]: { type: 'call'; method: M; params?: ActionParams<T, M> };
+      }[ActionName<T>]
+    | {
+          [F in FieldName<T>]: { type: 'set'; field: F; value: T['state'][F] };
+      }[FieldName<T>];
\ No newline at end of file
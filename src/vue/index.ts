@@ -1,117 +1,373 @@
-import {ref, reactive, onUnmounted, type Ref, computed, onMounted} from 'vue';
+import {ref, shallowRef, reactive, onUnmounted, type Ref, computed, onMounted, provide, inject, getCurrentInstance, watch, toRaw, type InjectionKey, type ShallowRef} from 'vue';
 import { LiveGoComponent } from '../core/component';
 import type {
+    ActionName,
+    ActionParams,
+    BatchOperation,
+    ComponentName,
+    ComponentProps,
+    ComponentType,
     Effects,
-    ErrorResponse,
     ComponentSnapshot,
+    FieldName,
     LiveGoOptions,
+    OperationOptions,
+    OutboxState,
+    ResolveComponent,
     StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
 } from '../types';
 import {LiveGoStream} from "../core/stream";
+import { changedKeys } from '../core/diff';
+import {
+    LiveGoAbortError,
+    LiveGoChildNotFoundError,
+    LiveGoError,
+    LiveGoNotMountedError,
+    LiveGoValidationError,
+    toLiveGoError,
+} from '../core/errors';
 
 export interface UseLiveGoOptions extends LiveGoOptions {
     autoMount?: boolean;
+    /** Snapshot mounted on the server, hydrated without calling `/mount` */
+    initialSnapshot?: ComponentSnapshot;
 }
 
-export interface LiveGoStreamOptions {
+export interface LiveGoStreamOptions extends Pick<
+    StreamOptions,
+    'endpoint' | 'events' | 'reconnect' | 'reconnectInterval' | 'maxReconnectInterval' | 'maxReconnectAttempts'
+> {
     autoConnect?: boolean;
     onTextChunk?: (chunk: string, done: boolean) => void;
     onProgress?: (current: number, total: number, message: string) => void;
     onEvent?: (event: StreamEvent) => void;
 }
 
-export interface UseLiveGoReturn {
-    state: Record<string, any>;
+export interface UseLiveGoReturn<T extends ComponentType = ComponentType> {
+    state: T['state'];
+    /** The mounted instance, or null before mounting */
+    component: Readonly<ShallowRef<LiveGoComponent<T> | null>>;
     effects: Ref<Effects | null>;
+    pendingFields: Ref<string[]>;
+    /** Requests waiting in the offline outbox */
+    outboxSize: Ref<number>;
+    outboxState: Ref<OutboxState>;
     isMounted: Ref<boolean>;
     isLoading: Ref<boolean>;
-    error: Ref<ErrorResponse | null>;
+    error: Ref<LiveGoError | null>;
+    errors: Ref<Record<string, string>>;
     mount: () => Promise<void>;
     remount: () => Promise<void>;
-    call: (method: string, ...params: any[]) => Promise<void>;
-    set: (field: string, value: any) => Promise<void>;
-    batch: (operations: Array<{ type: 'call' | 'set'; [key: string]: any }>) => Promise<void>;
+    call: <M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) => Promise<void>;
+    invoke: <M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) => Promise<void>;
+    set: <F extends FieldName<T>>(field: F, value: T['state'][F], options?: OperationOptions) => Promise<void>;
+    batch: (operations: BatchOperation<T>[], options?: OperationOptions) => Promise<void>;
+    flushInputs: () => Promise<void>;
+    /** Step through the confirmed snapshots (with the `history` option) */
+    undo: (options?: OperationOptions) => Promise<void>;
+    redo: (options?: OperationOptions) => Promise<void>;
+    canUndo: Ref<boolean>;
+    canRedo: Ref<boolean>;
+    abort: () => void;
+    isPending: (field: string) => boolean;
     getSnapshot: () => ComponentSnapshot | undefined;
     getId: () => string | undefined;
     getName: () => string | undefined;
 }
 
-export function useLiveGo(
-    componentName: string,
-    props: Record<string, any> = {},
+const LIVEGO_PARENT: InjectionKey<Ref<LiveGoComponent<any> | null>> = Symbol('livego-parent');
+const LIVEGO_SNAPSHOTS: InjectionKey<Record<string, ComponentSnapshot>> = Symbol('livego-snapshots');
+
+/**
+ * Provide snapshots mounted on the server, keyed by component name, for
+ * `useLiveGo()` in descendants to hydrate from
+ */
+export function provideLiveGoSnapshots(snapshots: Record<string, ComponentSnapshot>): void {
+    provide(LIVEGO_SNAPSHOTS, snapshots);
+}
+
+export function useLiveGo<N extends ComponentName>(
+    componentName: N,
+    props: ComponentProps<ResolveComponent<N>> = {} as ComponentProps<ResolveComponent<N>>,
     options: UseLiveGoOptions = {}
-): UseLiveGoReturn {
-    const state = reactive<Record<string, any>>({});
-    const effects = ref<Effects | null>(null);
-    const livego = ref<LiveGoComponent | null>(null);
-    const isMounted = ref(false);
-    const isLoading = ref(false);
-    const error = ref<ErrorResponse | null>(null);
+): UseLiveGoReturn<ResolveComponent<N>> {
+    type T = ResolveComponent<N>;
 
-    let unsubscribe: (() => void) | null = null;
+    const binding = useComponentBinding<T>();
+    const { livego, isLoading, error } = binding;
+    let controller: AbortController | null = null;
 
     /**
      * Mount the component from server
      */
     async function mount() {
         // Cleanup previous instance if exists
-        if (unsubscribe) {
-            unsubscribe();
-            unsubscribe = null;
-        }
+        binding.attach(null);
+
+        // Abort the previous mount and every request of the previous instance
+        controller?.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
 
         isLoading.value = true;
         error.value = null;
-        isMounted.value = false;
 
         try {
-            const instance = await LiveGoComponent.mount(componentName, props, options);
-            livego.value = instance;
-
-            // Initialize state reactively
-            Object.assign(state, instance.getState());
-            isMounted.value = true;
-
-            // Subscribe to updates
-            unsubscribe = instance.onUpdate((newState, newEffects) => {
-                // Replace state reactively
-                const keys = Object.keys(state);
-                for (const key of keys) {
-                    delete state[key];
-                }
-                Object.assign(state, newState);
-                effects.value = newEffects;
-            });
+            const instance = await LiveGoComponent.mount(componentName, props, { handleEffects: true, ...options, signal });
+            if (signal.aborted) {
+                return;
+            }
+
+            binding.attach(instance);
         } catch (e) {
-            error.value = e as ErrorResponse;
+            if (signal.aborted) {
+                return;
+            }
+
+            error.value = toLiveGoError(e);
             throw e;
         } finally {
-            isLoading.value = false;
+            if (!signal.aborted) {
+                isLoading.value = false;
+            }
         }
     }
 
+    // Let useLiveGoChild() in descendants find this component
+    if (getCurrentInstance()) {
+        provide(LIVEGO_PARENT, livego);
+    }
+
+    const initialSnapshot = options.initialSnapshot
+        ?? (getCurrentInstance() ? inject(LIVEGO_SNAPSHOTS, {})[componentName] : undefined);
+
+    if (initialSnapshot && typeof window === 'undefined') {
+        // Render the server's state; the instance is created when hydrating
+        binding.preview(initialSnapshot);
+    } else if (initialSnapshot) {
+        controller = new AbortController();
+        binding.attach(
+            new LiveGoComponent<T>(initialSnapshot, { handleEffects: true, ...options, signal: controller.signal })
+        );
+    } else if (options.autoMount) {
+        // Auto-mount if requested
+        mount();
+    }
+
+    // Cleanup on unmount
+    onUnmounted(() => {
+        controller?.abort();
+        binding.release();
+    });
+
+    return binding.expose(mount);
+}
+
+/**
+ * Bind to a child component listed in the parent's `memo.children`.
+ *
+ * The parent is the nearest ancestor that called `useLiveGo()` or
+ * `useLiveGoChild()`, unless passed explicitly. The child is created from the
+ * snapshot the server embedded in the parent's, follows the parent when it
+ * remounts, and is unmounted when the server stops listing it.
+ */
+export function useLiveGoChild<N extends ComponentName = ComponentName>(
+    id: string,
+    parent?: Pick<UseLiveGoReturn<any>, 'component'>
+): UseLiveGoReturn<ResolveComponent<N>> {
+    type T = ResolveComponent<N>;
+
+    const binding = useComponentBinding<T>();
+    const { livego, error } = binding;
+    const parentComponent = parent?.component ?? inject(LIVEGO_PARENT, shallowRef(null));
+    let unsubscribeParent: (() => void) | null = null;
+
     /**
-     * Remount with same props
+     * Pick up the child from the parent's latest snapshot
      */
-    async function remount() {
-        return mount();
+    async function resolve() {
+        const owner = parentComponent.value;
+        const child = owner?.getChild<T>(id) ?? null;
+
+        if (child !== livego.value) {
+            binding.attach(child);
+        }
+
+        if (owner && !child) {
+            error.value = new LiveGoChildNotFoundError(id);
+        } else if (error.value instanceof LiveGoChildNotFoundError) {
+            error.value = null;
+        }
+    }
+
+    const stop = watch(
+        parentComponent,
+        (owner) => {
+            unsubscribeParent?.();
+            unsubscribeParent = owner?.onUpdate(() => resolve()) ?? null;
+            resolve();
+        },
+        { immediate: true }
+    );
+
+    if (getCurrentInstance()) {
+        provide(LIVEGO_PARENT, livego);
+    }
+
+    // The parent owns the child, so only stop listening
+    onUnmounted(() => {
+        stop();
+        unsubscribeParent?.();
+        binding.attach(null);
+    });
+
+    return binding.expose(resolve);
+}
+
+/**
+ * Reactive state and methods for whichever component instance is attached
+ */
+function useComponentBinding<T extends ComponentType>() {
+    const state = reactive<Record<string, any>>({});
+    const effects = ref<Effects | null>(null);
+    const pendingFields = ref<string[]>([]);
+    const outboxSize = ref(0);
+    const outboxState = ref<OutboxState>('idle');
+    const canUndo = ref(false);
+    const canRedo = ref(false);
+    const livego = shallowRef<LiveGoComponent<T> | null>(null);
+    const isMounted = ref(false);
+    const isLoading = ref(false);
+    const error = shallowRef<LiveGoError | null>(null);
+    const errors = computed(() =>
+        error.value instanceof LiveGoValidationError ? error.value.firstErrors() : {}
+    );
+
+    let unsubscribe: (() => void) | null = null;
+    let unsubscribeOutbox: (() => void) | null = null;
+    let unsubscribeHistory: (() => void) | null = null;
+
+    /**
+     * Write the given keys of the new state, deleting the ones it dropped,
+     * so watchers on untouched keys do not fire
+     */
+    function patchState(newState: Record<string, any>, keys: string[]) {
+        for (const key of keys) {
+            if (key in newState) {
+                state[key] = newState[key];
+            } else {
+                delete state[key];
+            }
+        }
+    }
+
+    /**
+     * Replace state reactively, touching only the keys that differ
+     */
+    function replaceState(newState: Record<string, any>) {
+        patchState(newState, changedKeys(toRaw(state), newState));
+    }
+
+    /**
+     * Switch to another instance (or none) and subscribe to its updates
+     */
+    function attach(instance: LiveGoComponent<T> | null) {
+        if (unsubscribe) {
+            unsubscribe();
+            unsubscribe = null;
+        }
+        unsubscribeOutbox?.();
+        unsubscribeOutbox = null;
+        unsubscribeHistory?.();
+        unsubscribeHistory = null;
+
+        livego.value = instance;
+        isMounted.value = instance !== null;
+        outboxSize.value = instance?.getOutboxSize() ?? 0;
+        outboxState.value = instance?.getOutboxState() ?? 'idle';
+        canUndo.value = instance?.canUndo() ?? false;
+        canRedo.value = instance?.canRedo() ?? false;
+
+        if (!instance) {
+            return;
+        }
+
+        replaceState(instance.getState());
+        pendingFields.value = instance.getPendingFields();
+
+        unsubscribeOutbox = instance.onOutboxChange((size, newState) => {
+            outboxSize.value = size;
+            outboxState.value = newState;
+        });
+        unsubscribeHistory = instance.onHistoryChange((undoable, redoable) => {
+            canUndo.value = undoable;
+            canRedo.value = redoable;
+        });
+
+        unsubscribe = instance.onUpdate((newState, newEffects, changed) => {
+            patchState(newState, changed);
+            effects.value = newEffects;
+            pendingFields.value = instance.getPendingFields();
+        });
+    }
+
+    /**
+     * Show a snapshot's state without creating an instance, for server rendering
+     */
+    function preview(snapshot: ComponentSnapshot) {
+        replaceState(snapshot.state);
+        isMounted.value = true;
+    }
+
+    /**
+     * Stop listening to the attached instance
+     */
+    function release() {
+        if (unsubscribe) {
+            unsubscribe();
+            unsubscribe = null;
+        }
+        unsubscribeOutbox?.();
+        unsubscribeOutbox = null;
+        unsubscribeHistory?.();
+        unsubscribeHistory = null;
     }
 
     /**
      * Call a method on the server component
      */
-    async function call(method: string, ...params: any[]) {
+    async function call<M extends ActionName<T>>(method: M, ...params: ActionParams<T, M>) {
+        return invoke(method, params);
+    }
+
+    /**
+     * Call a method on the server component with explicit params and options
+     */
+    async function invoke<M extends ActionName<T>>(
+        method: M,
+        params: ActionParams<T, M>,
+        options?: OperationOptions
+    ) {
         if (!livego.value) {
-            const err = new Error('LiveGo component not mounted');
-            error.value = err as any;
+            const err = new LiveGoNotMountedError();
+            error.value = err;
             throw err;
         }
 
         try {
             error.value = null;
-            return await livego.value.call(method, ...params);
+            return await livego.value.invoke(method, params, options);
         } catch (e) {
-            error.value = e as ErrorResponse;
+            if (!(e instanceof LiveGoAbortError)) {
+                error.value = toLiveGoError(e);
+            }
             throw e;
         }
     }
@@ -119,18 +375,20 @@ export function useLiveGo(
     /**
      * Sync an input field to the server
      */
-    async function set(field: string, value: any) {
+    async function set<F extends FieldName<T>>(field: F, value: T['state'][F], options?: OperationOptions) {
         if (!livego.value) {
-            const err = new Error('LiveGo component not mounted');
-            error.value = err as any;
+            const err = new LiveGoNotMountedError();
+            error.value = err;
             throw err;
         }
 
         try {
             error.value = null;
-            return await livego.value.set(field, value);
+            return await livego.value.set(field, value, options);
         } catch (e) {
-            error.value = e as ErrorResponse;
+            if (!(e instanceof LiveGoAbortError)) {
+                error.value = toLiveGoError(e);
+            }
             throw e;
         }
     }
@@ -138,22 +396,99 @@ export function useLiveGo(
     /**
      * Batch multiple operations
      */
-    async function batch(operations: Array<{ type: 'call' | 'set'; [key: string]: any }>) {
+    async function batch(operations: BatchOperation<T>[], options?: OperationOptions) {
+        if (!livego.value) {
+            const err = new LiveGoNotMountedError();
+            error.value = err;
+            throw err;
+        }
+
+        try {
+            error.value = null;
+            return await livego.value.batch(operations, options);
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                error.value = toLiveGoError(e);
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Send buffered inputs right away
+     */
+    async function flushInputs() {
+        if (!livego.value) {
+            return;
+        }
+
+        try {
+            error.value = null;
+            return await livego.value.flushInputs();
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                error.value = toLiveGoError(e);
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Step back to the previous confirmed snapshot
+     */
+    async function undo(options?: OperationOptions) {
+        if (!livego.value) {
+            const err = new LiveGoNotMountedError();
+            error.value = err;
+            throw err;
+        }
+
+        try {
+            error.value = null;
+            return await livego.value.undo(options);
+        } catch (e) {
+            if (!(e instanceof LiveGoAbortError)) {
+                error.value = toLiveGoError(e);
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Step forward again after undo()
+     */
+    async function redo(options?: OperationOptions) {
         if (!livego.value) {
-            const err = new Error('LiveGo component not mounted');
-            error.value = err as any;
+            const err = new LiveGoNotMountedError();
+            error.value = err;
             throw err;
         }
 
         try {
             error.value = null;
-            return await livego.value.batch(operations);
+            return await livego.value.redo(options);
         } catch (e) {
-            error.value = e as ErrorResponse;
+            if (!(e instanceof LiveGoAbortError)) {
+                error.value = toLiveGoError(e);
+            }
             throw e;
         }
     }
 
+    /**
+     * Abort pending requests
+     */
+    function abort() {
+        livego.value?.abort();
+    }
+
+    /**
+     * Whether a field has optimistic changes waiting for the server
+     */
+    function isPending(field: string) {
+        return pendingFields.value.includes(field);
+    }
+
     /**
      * Get current snapshot
      */
@@ -175,45 +510,50 @@ export function useLiveGo(
         return livego.value?.getName();
     }
 
-    // Auto-mount if requested
-    if (options.autoMount) {
-        mount();
+    /**
+     * The public surface, with `mount` (and `remount`) supplied by the caller
+     */
+    function expose(mount: () => Promise<void>): UseLiveGoReturn<T> {
+        return {
+            state: state as T['state'],
+            component: livego,
+            effects,
+            pendingFields,
+            outboxSize,
+            outboxState,
+            isMounted,
+            isLoading,
+            error,
+            errors,
+            mount,
+            remount: mount,
+            call,
+            invoke,
+            set,
+            batch,
+            flushInputs,
+            undo,
+            redo,
+            canUndo,
+            canRedo,
+            abort,
+            isPending,
+            getSnapshot,
+            getId,
+            getName,
+        };
     }
 
-    // Cleanup on unmount
-    onUnmounted(() => {
-        if (unsubscribe) {
-            unsubscribe();
-        }
-        if (livego.value) {
-            livego.value.clearListeners();
-        }
-    });
-
-    return {
-        state,
-        effects,
-        isMounted,
-        isLoading,
-        error,
-        mount,
-        remount,
-        call,
-        set,
-        batch,
-        getSnapshot,
-        getId,
-        getName,
-    };
+    return { livego, isLoading, error, attach, preview, release, expose };
 }
 
-export function useLiveGoStream(
+export function useLiveGoStream<E extends StreamEventMap = StreamEventMap>(
     componentId: string,
     signature: string,
     options: LiveGoStreamOptions = {}
 ) {
-    const stream = ref<LiveGoStream | null>(null);
-    const isConnected = ref(false);
+    const stream = shallowRef<LiveGoStream<E> | null>(null);
+    const state = ref<StreamState>('closed');
     const streamedText = ref('');
     const progress = ref({ current: 0, total: 0, message: '' });
     const events = ref<StreamEvent[]>([]);
@@ -221,12 +561,12 @@ export function useLiveGoStream(
     const connect = () => {
         if (stream.value) return;
 
-        stream.value = new LiveGoStream(componentId, signature, {
-            onConnect: () => {
-                isConnected.value = true;
-            },
-            onDisconnect: () => {
-                isConnected.value = false;
+        const { autoConnect, onTextChunk, onProgress, onEvent, ...streamOptions } = options;
+
+        const instance = new LiveGoStream<E>(componentId, signature, {
+            ...streamOptions,
+            onStateChange: (newState) => {
+                state.value = newState;
             },
             onEvent: (event) => {
                 events.value.push(event);
@@ -234,8 +574,10 @@ export function useLiveGoStream(
             },
         });
 
+        stream.value = instance;
+
         // Handle text chunks
-        stream.value.on('text-chunk', (data: { chunk: string; done: boolean }) => {
+        instance.on('text-chunk', (data: StreamEventMap['text-chunk']) => {
             if (!data.done) {
                 streamedText.value += data.chunk;
             }
@@ -243,21 +585,21 @@ export function useLiveGoStream(
         });
 
         // Handle progress
-        stream.value.on('progress', (data: { current: number; total: number; message: string }) => {
+        instance.on('progress', (data: StreamEventMap['progress']) => {
             progress.value = data;
             options.onProgress?.(data.current, data.total, data.message);
         });
 
-        stream.value.connect();
+        instance.connect();
     };
 
     const disconnect = () => {
         stream.value?.disconnect();
         stream.value = null;
-        isConnected.value = false;
+        state.value = 'closed';
     };
 
-    const on = <T = any>(event: string, callback: (data: T) => void) => {
+    const on = <K extends keyof E & string>(event: K, callback: (data: E[K]) => void) => {
         return stream.value?.on(event, callback);
     };
 
@@ -275,7 +617,8 @@ export function useLiveGoStream(
 
     return {
         stream,
-        isConnected: computed(() => isConnected.value),
+        state: computed(() => state.value),
+        isConnected: computed(() => state.value === 'open'),
         streamedText: computed(() => streamedText.value),
         progress: computed(() => progress.value),
         events: computed(() => events.value),
@@ -286,11 +629,54 @@ export function useLiveGoStream(
     };
 }
 
-export { configure, configureEndpoint, configureCredentials, configureHeaders } from '../core/config';
+export { configure, configureEndpoint, configureCredentials, configureHeaders, configureRetry, configureTimeout, configureInterceptors, configureTransport, configureStorage } from '../core/config';
+export { MemorySnapshotStorage, SessionSnapshotStorage, LocalSnapshotStorage } from '../core/storage';
+export { mountSnapshot, serializeSnapshot } from '../core/ssr';
 export { LiveGoComponent } from '../core/component';
+export { LiveGoStream } from '../core/stream';
+export { onDispatch, dispatch, configureRedirectHandler, configureHtmlHandler } from '../core/effects';
+export {
+    LiveGoError,
+    LiveGoHttpError,
+    LiveGoNetworkError,
+    LiveGoChecksumError,
+    LiveGoValidationError,
+    LiveGoNotMountedError,
+    LiveGoTimeoutError,
+    LiveGoAbortError,
+    LiveGoChildNotFoundError,
+    LiveGoTransportClosedError,
+} from '../core/errors';
 export type {
     ErrorResponse,
     ComponentSnapshot,
     Effects,
-    LiveGoOptions
+    LiveGoOptions,
+    SyncMode,
+    RetryPolicy,
+    OperationOptions,
+    Interceptors,
+    LiveGoRequest,
+    RequestInterceptor,
+    ResponseInterceptor,
+    Transport,
+    SnapshotStorage,
+    PersistOptions,
+    ServerMountOptions,
+    OfflineOptions,
+    OutboxState,
+    OutboxConflict,
+    ConflictResolution,
+    MountCacheOptions,
+    HistoryOptions,
+    ComponentTypes,
+    ComponentType,
+    BatchOperation,
+    StreamEvent,
+    StreamEventMap,
+    StreamOptions,
+    StreamState,
+    Dispatch,
+    DispatchEventMap,
+    EffectSource,
 } from '../types';
\ No newline at end of file
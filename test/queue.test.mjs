@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LiveGoComponent, MockTransport } from '../dist/index.mjs';
+
+const effects = { dirty: [], dispatches: [], redirects: null, html: null };
+
+function setup() {
+    let release;
+    const blocked = new Promise((resolve) => {
+        release = resolve;
+    });
+    let requests = 0;
+
+    const transport = new MockTransport({
+        update: async ({ snapshot }) => {
+            if (requests++ === 0) {
+                await blocked;
+            }
+            return { snapshot: { ...snapshot, checksum: `c${requests}` }, effects };
+        },
+    });
+    const component = new LiveGoComponent(
+        { state: { name: '', count: 0 }, memo: { id: 'form', name: 'Form' }, checksum: 'c0' },
+        { transport }
+    );
+    const sent = () => transport.calls.slice(1).map((call) => call.request.updates.map((update) =>
+        update.type === 'syncInput' ? `${update.payload.field}=${update.payload.value}` : update.payload.method
+    ));
+
+    return { component, release, sent };
+}
+
+test('sets of one field queued behind an in-flight call collapse to the last value', async () => {
+    const { component, release, sent } = setup();
+
+    const first = component.call('increment');
+    const pending = [
+        component.set('name', 'a'),
+        component.set('name', 'ab'),
+        component.set('name', 'abc'),
+        component.call('increment'),
+        component.call('increment'),
+    ];
+    release();
+
+    await first;
+    await Promise.all(pending);
+    assert.deepEqual(sent(), [['name=abc', 'increment', 'increment']]);
+});
+
+test('inputs are never merged across a method call', async () => {
+    const { component, release, sent } = setup();
+
+    const first = component.call('increment');
+    const pending = [
+        component.set('name', 'a'),
+        component.set('count', 1),
+        component.call('save'),
+        component.set('name', 'b'),
+        component.set('name', 'c'),
+    ];
+    release();
+
+    await first;
+    await Promise.all(pending);
+    assert.deepEqual(sent(), [['name=a', 'count=1', 'save', 'name=c']]);
+});
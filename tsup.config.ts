@@ -1,47 +1,33 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig([
-    // Core package (framework-agnostic)
+    // Core package and framework adapters. They are built together so that
+    // code splitting puts the core in a chunk every entry shares: one event
+    // bus, registry, mount cache and configuration, whichever entry imports them.
     {
-        entry: ['src/index.ts'],
+        entry: {
+            index: 'src/index.ts',
+            'index.vue': 'src/vue/index.ts',
+            'index.react': 'src/react/index.ts',
+            'index.svelte': 'src/svelte/index.ts',
+            'index.solid': 'src/solid/index.ts',
+            'index.dom': 'src/dom/index.ts',
+        },
         format: ['cjs', 'esm'],
-        dts: true,
+        splitting: true,
         clean: true,
         sourcemap: true,
-        external: ['vue', 'react'],
-    },
-    // Vue adapter
-    {
-        entry: ['src/vue/index.ts'],
-        format: ['cjs', 'esm'],
-        dts: true,
-        sourcemap: true,
-        external: ['vue'],
-        outDir: 'dist',
-        outExtension({ format }) {
-            return {
-                js: format === 'cjs' ? '.vue.js' : '.vue.mjs',
-            };
-        },
-        esbuildOptions(options) {
-            options.outbase = './src/vue';
-        },
+        external: ['vue', 'react', 'svelte', 'svelte/store', 'solid-js', 'solid-js/store'],
     },
-    // React adapter
+    // Code generator CLI
     {
-        entry: ['src/react/index.ts'],
-        format: ['cjs', 'esm'],
-        dts: true,
+        entry: { 'livego-codegen': 'src/codegen/cli.ts' },
+        format: ['cjs'],
+        platform: 'node',
         sourcemap: true,
-        external: ['react'],
         outDir: 'dist',
-        outExtension({ format }) {
-            return {
-                js: format === 'cjs' ? '.react.js' : '.react.mjs',
-            };
-        },
-        esbuildOptions(options) {
-            options.outbase = './src/react';
+        banner: {
+            js: '#!/usr/bin/env node',
         },
     },
-]);
\ No newline at end of file
+]);